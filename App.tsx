@@ -1,11 +1,15 @@
-import React, { useEffect } from 'react';
+import React, { useEffect, useState } from 'react';
+import { ActivityIndicator, StyleSheet, View } from 'react-native';
 import { StatusBar } from 'expo-status-bar';
 import { Provider as PaperProvider } from 'react-native-paper';
 import { AuthProvider } from './src/contexts/AuthContext';
 import { AppNavigator } from './src/navigation/AppNavigator';
 import { DatabaseInit } from './src/services/databaseInit';
+import { CategoryConfigService } from './src/services/categoryConfigService';
 
 export default function App() {
+  const [categoryConfigLoaded, setCategoryConfigLoaded] = useState(false);
+
   useEffect(() => {
     // Initialize database when app starts
     DatabaseInit.initializeDatabase().then((success) => {
@@ -15,14 +19,35 @@ export default function App() {
         console.log('Database initialization failed - manual setup required');
       }
     });
+
+    // Load per-category expiry, styling and sounds (falls back to cached values offline).
+    // Screens read the config while rendering, so wait for it before mounting them.
+    CategoryConfigService.load()
+      .catch((error) => console.error('Error loading category config:', error))
+      .finally(() => setCategoryConfigLoaded(true));
   }, []);
 
   return (
     <PaperProvider>
       <AuthProvider>
-        <AppNavigator />
+        {categoryConfigLoaded ? (
+          <AppNavigator />
+        ) : (
+          <View style={styles.loadingContainer}>
+            <ActivityIndicator size="large" color="#0066FF" />
+          </View>
+        )}
         <StatusBar style="auto" />
       </AuthProvider>
     </PaperProvider>
   );
-} 
\ No newline at end of file
+}
+
+const styles = StyleSheet.create({
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#f5f5f5',
+  },
+});
@@ -0,0 +1,58 @@
+-- RadarPro Category Configuration
+-- This SQL script stores per-category settings (expiry, colors, icons, sounds)
+-- in the database so they can be tuned without shipping a new build.
+-- The app loads this table at startup and caches it for offline use.
+-- Run it after setup_report_expiry.sql in the Supabase SQL editor.
+
+CREATE TABLE IF NOT EXISTS public.category_config (
+    category TEXT PRIMARY KEY CHECK (category IN ('police_checkpoint', 'accident', 'road_hazard', 'traffic_jam', 'weather_alert', 'general')),
+    expiry_minutes INTEGER NOT NULL CHECK (expiry_minutes > 0),
+    color TEXT NOT NULL,
+    icon TEXT NOT NULL,
+    notification_sound TEXT NOT NULL DEFAULT 'default.mp3',
+    enabled BOOLEAN NOT NULL DEFAULT true,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+DROP TRIGGER IF EXISTS update_category_config_updated_at ON public.category_config;
+CREATE TRIGGER update_category_config_updated_at BEFORE UPDATE ON public.category_config
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Default values (match the defaults in src/utils/categories.ts)
+INSERT INTO public.category_config (category, expiry_minutes, color, icon, notification_sound)
+VALUES
+    ('police_checkpoint', 5, '#1E40AF', '🚔', 'siren.mp3'),
+    ('accident', 2, '#DC2626', '🚨', 'crash.mp3'),
+    ('road_hazard', 15, '#D97706', '⚠️', 'warning.mp3'),
+    ('traffic_jam', 15, '#7C2D12', '🚦', 'traffic.mp3'),
+    ('weather_alert', 2, '#0F766E', '🌧️', 'weather.mp3'),
+    ('general', 10, '#374151', '📍', 'default.mp3')
+ON CONFLICT (category) DO NOTHING;
+
+-- Everyone can read the config; changes are made from the dashboard
+ALTER TABLE public.category_config ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can view category config" ON public.category_config;
+CREATE POLICY "Anyone can view category config" ON public.category_config
+    FOR SELECT USING (true);
+
+GRANT SELECT ON public.category_config TO anon, authenticated;
+
+-- Server-side expiry now reads lifetimes from the config table
+-- (replaces the hard-coded version from setup_report_expiry.sql)
+CREATE OR REPLACE FUNCTION public.report_expiry_minutes(category_param TEXT)
+RETURNS INTEGER
+LANGUAGE sql
+STABLE
+AS $$
+    SELECT COALESCE(
+        (SELECT c.expiry_minutes FROM public.category_config c WHERE c.category = category_param),
+        10
+    );
+$$;
+
+-- Show the current config
+SELECT category, expiry_minutes, color, icon, notification_sound, enabled
+FROM public.category_config
+ORDER BY category;
@@ -0,0 +1,366 @@
+-- RadarPro Incidents
+-- This SQL script groups reports into incidents. Each new report starts an
+-- incident unless it is merged into an existing one, either as a duplicate or
+-- as an update posted from the report detail screen. incident_events records
+-- the incident's history: the first report, updates, confirmations, denials
+-- and how it ended. Triggers keep both tables in sync, and
+-- create_report_with_media takes the report an update belongs to.
+-- Run it after setup_report_merging.sql in the Supabase SQL editor.
+
+CREATE TABLE IF NOT EXISTS public.incidents (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    -- The report shown on the map; checked at commit because it is inserted after its incident
+    report_id UUID NOT NULL REFERENCES public.reports(id) ON DELETE CASCADE DEFERRABLE INITIALLY DEFERRED,
+    category TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'resolved', 'expired')),
+    started_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    last_activity_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    ended_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE (report_id)
+);
+
+DROP TRIGGER IF EXISTS update_incidents_updated_at ON public.incidents;
+CREATE TRIGGER update_incidents_updated_at BEFORE UPDATE ON public.incidents
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TABLE IF NOT EXISTS public.incident_events (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    incident_id UUID NOT NULL REFERENCES public.incidents(id) ON DELETE CASCADE,
+    report_id UUID REFERENCES public.reports(id) ON DELETE SET NULL,
+    user_id UUID REFERENCES public.users(id) ON DELETE SET NULL, -- NULL for events raised by the system
+    event_type TEXT NOT NULL CHECK (event_type IN ('reported', 'update', 'confirmed', 'denied', 'resolved', 'expired')),
+    description TEXT,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_incident_events_incident_id ON public.incident_events(incident_id, created_at);
+
+ALTER TABLE public.reports
+    ADD COLUMN IF NOT EXISTS incident_id UUID REFERENCES public.incidents(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_reports_incident_id ON public.reports(incident_id);
+
+-- Everyone can read incidents; they are only written by the triggers below
+ALTER TABLE public.incidents ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.incident_events ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can view incidents" ON public.incidents;
+CREATE POLICY "Anyone can view incidents" ON public.incidents
+    FOR SELECT USING (true);
+
+DROP POLICY IF EXISTS "Anyone can view incident events" ON public.incident_events;
+CREATE POLICY "Anyone can view incident events" ON public.incident_events
+    FOR SELECT USING (true);
+
+GRANT SELECT ON public.incidents, public.incident_events TO anon, authenticated;
+
+-- Stream new history entries to open timelines and detail screens
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_publication_tables
+        WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'incident_events'
+    ) THEN
+        ALTER PUBLICATION supabase_realtime ADD TABLE public.incident_events;
+    END IF;
+END;
+$$;
+
+-- Start an incident for a new report, or join the incident of the report it
+-- was merged into. Reports sent with merged_into already set are updates
+-- posted to an incident, which must still be active.
+-- Runs after match_duplicate_report, which fills merged_into for duplicates.
+CREATE OR REPLACE FUNCTION public.track_report_incident()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    target public.reports;
+BEGIN
+    IF NEW.merged_into IS NOT NULL THEN
+        SELECT * INTO target FROM public.reports WHERE id = NEW.merged_into;
+
+        -- Updates posted to a merged report belong to its incident's report
+        IF target.merged_into IS NOT NULL THEN
+            SELECT * INTO target FROM public.reports WHERE id = target.merged_into;
+        END IF;
+
+        IF target.id IS NULL OR target.status <> 'active' THEN
+            RAISE EXCEPTION 'This incident is no longer active';
+        END IF;
+
+        NEW.merged_into = target.id;
+        NEW.status = 'merged';
+        NEW.category = target.category;
+        NEW.incident_id = target.incident_id;
+    ELSE
+        INSERT INTO public.incidents (report_id, category, started_at, last_activity_at)
+        VALUES (NEW.id, NEW.category, NEW.report_timestamp, NEW.report_timestamp)
+        RETURNING id INTO NEW.incident_id;
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS track_report_incident ON public.reports;
+CREATE TRIGGER track_report_incident BEFORE INSERT ON public.reports
+    FOR EACH ROW EXECUTE FUNCTION public.track_report_incident();
+
+-- Record a new report in its incident's history
+CREATE OR REPLACE FUNCTION public.log_report_incident_event()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NEW.incident_id IS NULL THEN
+        RETURN NEW;
+    END IF;
+
+    INSERT INTO public.incident_events (incident_id, report_id, user_id, event_type, description, created_at)
+    VALUES (
+        NEW.incident_id,
+        NEW.id,
+        NEW.user_id,
+        CASE WHEN NEW.merged_into IS NULL THEN 'reported' ELSE 'update' END,
+        NEW.description,
+        NEW.report_timestamp
+    );
+
+    UPDATE public.incidents
+    SET last_activity_at = GREATEST(last_activity_at, NEW.report_timestamp)
+    WHERE id = NEW.incident_id;
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS log_report_incident_event ON public.reports;
+CREATE TRIGGER log_report_incident_event
+    AFTER INSERT ON public.reports
+    FOR EACH ROW EXECUTE FUNCTION public.log_report_incident_event();
+
+-- Close the incident when its report is resolved or expires
+CREATE OR REPLACE FUNCTION public.end_report_incident()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    UPDATE public.incidents
+    SET status = NEW.status, ended_at = NOW(), last_activity_at = NOW()
+    WHERE id = NEW.incident_id AND status = 'active';
+
+    IF FOUND THEN
+        INSERT INTO public.incident_events (incident_id, report_id, event_type)
+        VALUES (NEW.incident_id, NEW.id, NEW.status);
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS end_report_incident ON public.reports;
+CREATE TRIGGER end_report_incident
+    AFTER UPDATE OF status ON public.reports
+    FOR EACH ROW
+    WHEN (
+        NEW.incident_id IS NOT NULL
+        AND NEW.merged_into IS NULL
+        AND NEW.status IN ('resolved', 'expired')
+        AND OLD.status IS DISTINCT FROM NEW.status
+    )
+    EXECUTE FUNCTION public.end_report_incident();
+
+-- Record confirmations and denials in the incident's history
+CREATE OR REPLACE FUNCTION public.log_vote_incident_event()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    target_incident_id UUID;
+BEGIN
+    IF TG_OP = 'UPDATE' AND OLD.vote_type = NEW.vote_type THEN
+        RETURN NEW;
+    END IF;
+
+    SELECT incident_id INTO target_incident_id FROM public.reports WHERE id = NEW.report_id;
+    IF target_incident_id IS NULL THEN
+        RETURN NEW;
+    END IF;
+
+    -- A report merged in this transaction already shows up as an update
+    IF EXISTS (
+        SELECT 1 FROM public.reports r
+        WHERE r.merged_into = NEW.report_id
+        AND r.user_id = NEW.user_id
+        AND r.created_at = transaction_timestamp()
+    ) THEN
+        RETURN NEW;
+    END IF;
+
+    INSERT INTO public.incident_events (incident_id, report_id, user_id, event_type)
+    VALUES (
+        target_incident_id,
+        NEW.report_id,
+        NEW.user_id,
+        CASE WHEN NEW.vote_type = 'confirm' THEN 'confirmed' ELSE 'denied' END
+    );
+
+    UPDATE public.incidents SET last_activity_at = NOW() WHERE id = target_incident_id;
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS log_vote_incident_event ON public.report_votes;
+CREATE TRIGGER log_vote_incident_event
+    AFTER INSERT OR UPDATE OF vote_type ON public.report_votes
+    FOR EACH ROW EXECUTE FUNCTION public.log_vote_incident_event();
+
+-- Joining an incident must not restart a report's lifetime
+-- (replaces the version from setup_report_merging.sql)
+CREATE OR REPLACE FUNCTION public.update_report_updated_at_column()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF (to_jsonb(NEW) - ARRAY['confirm_count', 'deny_count', 'last_confirmed_at', 'reporter_count', 'location', 'footprint', 'incident_id', 'updated_at'])
+        = (to_jsonb(OLD) - ARRAY['confirm_count', 'deny_count', 'last_confirmed_at', 'reporter_count', 'location', 'footprint', 'incident_id', 'updated_at']) THEN
+        NEW.updated_at = OLD.updated_at;
+    ELSE
+        NEW.updated_at = NOW();
+    END IF;
+    RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+-- Backfill an incident for every existing report, then attach merged reports
+-- to the incident of the report they were merged into
+DO $$
+DECLARE
+    lead RECORD;
+    new_incident_id UUID;
+BEGIN
+    FOR lead IN
+        SELECT * FROM public.reports WHERE incident_id IS NULL AND merged_into IS NULL
+    LOOP
+        INSERT INTO public.incidents (report_id, category, status, started_at, last_activity_at, ended_at)
+        VALUES (
+            lead.id,
+            lead.category,
+            CASE WHEN lead.status IN ('resolved', 'expired') THEN lead.status ELSE 'active' END,
+            lead.report_timestamp,
+            GREATEST(lead.updated_at, lead.last_confirmed_at),
+            CASE WHEN lead.status IN ('resolved', 'expired') THEN lead.updated_at END
+        )
+        RETURNING id INTO new_incident_id;
+
+        UPDATE public.reports SET incident_id = new_incident_id WHERE id = lead.id;
+
+        INSERT INTO public.incident_events (incident_id, report_id, user_id, event_type, description, created_at)
+        VALUES (new_incident_id, lead.id, lead.user_id, 'reported', lead.description, lead.report_timestamp);
+    END LOOP;
+
+    UPDATE public.reports m
+    SET incident_id = r.incident_id
+    FROM public.reports r
+    WHERE m.merged_into = r.id AND m.incident_id IS NULL;
+
+    INSERT INTO public.incident_events (incident_id, report_id, user_id, event_type, description, created_at)
+    SELECT m.incident_id, m.id, m.user_id, 'update', m.description, m.report_timestamp
+    FROM public.reports m
+    WHERE m.merged_into IS NOT NULL
+    AND m.incident_id IS NOT NULL
+    AND NOT EXISTS (SELECT 1 FROM public.incident_events e WHERE e.report_id = m.id);
+END;
+$$;
+
+-- Create a report and its attachments together
+-- (replaces the version from setup_report_geometry.sql, adding merged_into_param)
+-- merged_into_param posts the report as an update to that report's incident
+-- media_param is an array of { file_type, file_url, file_name, thumbnail_url, thumbnail_name }
+-- objects; the thumbnail fields are optional
+DROP FUNCTION IF EXISTS public.create_report_with_media(UUID, TEXT, TEXT, DOUBLE PRECISION, DOUBLE PRECISION, TIMESTAMP WITH TIME ZONE, JSONB, JSONB, DOUBLE PRECISION, TEXT, JSONB);
+
+CREATE OR REPLACE FUNCTION public.create_report_with_media(
+    id_param UUID,
+    category_param TEXT,
+    description_param TEXT,
+    latitude_param DOUBLE PRECISION,
+    longitude_param DOUBLE PRECISION,
+    report_timestamp_param TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+    media_param JSONB DEFAULT '[]'::jsonb,
+    details_param JSONB DEFAULT '{}'::jsonb,
+    heading_param DOUBLE PRECISION DEFAULT NULL,
+    road_side_param TEXT DEFAULT NULL,
+    geometry_param JSONB DEFAULT NULL,
+    merged_into_param UUID DEFAULT NULL
+)
+RETURNS public.reports
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+    created public.reports;
+    item JSONB;
+    original_id UUID;
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'You must be signed in to create a report';
+    END IF;
+
+    INSERT INTO public.reports (
+        id, user_id, category, description, details, latitude, longitude, heading, road_side, geometry,
+        merged_into, report_timestamp, status
+    )
+    VALUES (
+        COALESCE(id_param, uuid_generate_v4()),
+        auth.uid(),
+        category_param,
+        description_param,
+        COALESCE(details_param, '{}'::jsonb),
+        latitude_param,
+        longitude_param,
+        heading_param,
+        road_side_param,
+        -- JSON null from the client means no shape
+        NULLIF(geometry_param, 'null'::jsonb),
+        merged_into_param,
+        -- Queued reports keep their capture time, but never one in the future
+        LEAST(COALESCE(report_timestamp_param, NOW()), NOW()),
+        'active'
+    )
+    RETURNING * INTO created;
+
+    FOR item IN SELECT * FROM jsonb_array_elements(COALESCE(media_param, '[]'::jsonb))
+    LOOP
+        INSERT INTO public.media_files (report_id, file_type, file_url, file_name, variant)
+        VALUES (created.id, item ->> 'file_type', item ->> 'file_url', item ->> 'file_name', 'original')
+        RETURNING id INTO original_id;
+
+        IF item ->> 'thumbnail_url' IS NOT NULL THEN
+            INSERT INTO public.media_files (report_id, file_type, file_url, file_name, variant, source_media_id)
+            VALUES (
+                created.id,
+                item ->> 'file_type',
+                item ->> 'thumbnail_url',
+                item ->> 'thumbnail_name',
+                'thumbnail',
+                original_id
+            );
+        END IF;
+    END LOOP;
+
+    RETURN created;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.create_report_with_media(UUID, TEXT, TEXT, DOUBLE PRECISION, DOUBLE PRECISION, TIMESTAMP WITH TIME ZONE, JSONB, JSONB, DOUBLE PRECISION, TEXT, JSONB, UUID) TO authenticated;
@@ -0,0 +1,40 @@
+-- RadarPro Map Viewport Queries
+-- This SQL script adds a bounding-box RPC so the map can load the active
+-- reports inside the visible region instead of the latest reports worldwide.
+-- Run it after database_schema.sql in the Supabase SQL editor.
+
+-- Index used to find active reports inside a bounding box
+CREATE INDEX IF NOT EXISTS idx_reports_active_lat_lng
+    ON public.reports(latitude, longitude)
+    WHERE status = 'active';
+
+-- Active reports inside a bounding box, most recently updated first
+-- When min_lng_param > max_lng_param the box crosses the antimeridian
+-- Returns public.reports rows so callers can embed users and media_files
+CREATE OR REPLACE FUNCTION public.get_reports_in_bbox(
+    min_lat_param DOUBLE PRECISION,
+    min_lng_param DOUBLE PRECISION,
+    max_lat_param DOUBLE PRECISION,
+    max_lng_param DOUBLE PRECISION,
+    limit_param INTEGER DEFAULT 200
+)
+RETURNS SETOF public.reports
+LANGUAGE sql
+STABLE
+AS $$
+    SELECT r.*
+    FROM public.reports r
+    WHERE r.status = 'active'
+    AND r.latitude BETWEEN min_lat_param AND max_lat_param
+    AND (
+        CASE
+            WHEN min_lng_param <= max_lng_param
+                THEN r.longitude BETWEEN min_lng_param AND max_lng_param
+            ELSE r.longitude >= min_lng_param OR r.longitude <= max_lng_param
+        END
+    )
+    ORDER BY r.updated_at DESC
+    LIMIT LEAST(GREATEST(COALESCE(limit_param, 200), 1), 500);
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_reports_in_bbox(DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, INTEGER) TO anon, authenticated;
@@ -0,0 +1,43 @@
+-- RadarPro Multiple Photos and Video
+-- This SQL script allows video attachments and several photos per report,
+-- and caps how many attachments of each type a report can have.
+-- Run it after setup_report_attachments.sql in the Supabase SQL editor.
+
+ALTER TABLE public.media_files DROP CONSTRAINT IF EXISTS media_files_file_type_check;
+ALTER TABLE public.media_files
+    ADD CONSTRAINT media_files_file_type_check CHECK (file_type IN ('photo', 'audio', 'video'));
+
+-- Attachment limits per report (match MEDIA_LIMITS in src/utils/media.ts)
+CREATE OR REPLACE FUNCTION public.media_file_limit(file_type_param TEXT)
+RETURNS INTEGER
+LANGUAGE sql
+IMMUTABLE
+AS $$
+    SELECT CASE file_type_param
+        WHEN 'photo' THEN 6
+        WHEN 'video' THEN 2
+        WHEN 'audio' THEN 1
+        ELSE 0
+    END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.enforce_media_file_limit()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    IF (
+        SELECT COUNT(*)
+        FROM public.media_files
+        WHERE report_id = NEW.report_id AND file_type = NEW.file_type
+    ) >= public.media_file_limit(NEW.file_type) THEN
+        RAISE EXCEPTION 'A report can have at most % % attachment(s)',
+            public.media_file_limit(NEW.file_type), NEW.file_type;
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS enforce_media_file_limit ON public.media_files;
+CREATE TRIGGER enforce_media_file_limit BEFORE INSERT ON public.media_files
+    FOR EACH ROW EXECUTE FUNCTION public.enforce_media_file_limit();
@@ -0,0 +1,106 @@
+-- RadarPro Photo Thumbnails
+-- This SQL script lets media_files hold generated thumbnails next to the
+-- original uploads. A thumbnail row has variant 'thumbnail' and points at its
+-- original through source_media_id. Thumbnails don't count towards the
+-- attachment limits.
+-- Run it after setup_media_gallery.sql in the Supabase SQL editor.
+
+ALTER TABLE public.media_files
+    ADD COLUMN IF NOT EXISTS variant TEXT NOT NULL DEFAULT 'original',
+    ADD COLUMN IF NOT EXISTS source_media_id UUID REFERENCES public.media_files(id) ON DELETE CASCADE;
+
+ALTER TABLE public.media_files DROP CONSTRAINT IF EXISTS media_files_variant_check;
+ALTER TABLE public.media_files
+    ADD CONSTRAINT media_files_variant_check CHECK (
+        (variant = 'original' AND source_media_id IS NULL) OR
+        (variant = 'thumbnail' AND source_media_id IS NOT NULL)
+    );
+
+CREATE INDEX IF NOT EXISTS idx_media_files_source_media_id ON public.media_files(source_media_id);
+
+-- Only originals count towards the limits (replaces the version from setup_media_gallery.sql)
+CREATE OR REPLACE FUNCTION public.enforce_media_file_limit()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    IF NEW.variant <> 'original' THEN
+        RETURN NEW;
+    END IF;
+
+    IF (
+        SELECT COUNT(*)
+        FROM public.media_files
+        WHERE report_id = NEW.report_id AND file_type = NEW.file_type AND variant = 'original'
+    ) >= public.media_file_limit(NEW.file_type) THEN
+        RAISE EXCEPTION 'A report can have at most % % attachment(s)',
+            public.media_file_limit(NEW.file_type), NEW.file_type;
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+-- Create a report and its attachments together
+-- (replaces the version from setup_report_attachments.sql)
+-- media_param is an array of { file_type, file_url, file_name, thumbnail_url, thumbnail_name }
+-- objects; the thumbnail fields are optional
+CREATE OR REPLACE FUNCTION public.create_report_with_media(
+    id_param UUID,
+    category_param TEXT,
+    description_param TEXT,
+    latitude_param DOUBLE PRECISION,
+    longitude_param DOUBLE PRECISION,
+    report_timestamp_param TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+    media_param JSONB DEFAULT '[]'::jsonb
+)
+RETURNS public.reports
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+    created public.reports;
+    item JSONB;
+    original_id UUID;
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'You must be signed in to create a report';
+    END IF;
+
+    INSERT INTO public.reports (id, user_id, category, description, latitude, longitude, report_timestamp, status)
+    VALUES (
+        COALESCE(id_param, uuid_generate_v4()),
+        auth.uid(),
+        category_param,
+        description_param,
+        latitude_param,
+        longitude_param,
+        -- Queued reports keep their capture time, but never one in the future
+        LEAST(COALESCE(report_timestamp_param, NOW()), NOW()),
+        'active'
+    )
+    RETURNING * INTO created;
+
+    FOR item IN SELECT * FROM jsonb_array_elements(COALESCE(media_param, '[]'::jsonb))
+    LOOP
+        INSERT INTO public.media_files (report_id, file_type, file_url, file_name, variant)
+        VALUES (created.id, item ->> 'file_type', item ->> 'file_url', item ->> 'file_name', 'original')
+        RETURNING id INTO original_id;
+
+        IF item ->> 'thumbnail_url' IS NOT NULL THEN
+            INSERT INTO public.media_files (report_id, file_type, file_url, file_name, variant, source_media_id)
+            VALUES (
+                created.id,
+                item ->> 'file_type',
+                item ->> 'thumbnail_url',
+                item ->> 'thumbnail_name',
+                'thumbnail',
+                original_id
+            );
+        END IF;
+    END LOOP;
+
+    RETURN created;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.create_report_with_media(UUID, TEXT, TEXT, DOUBLE PRECISION, DOUBLE PRECISION, TIMESTAMP WITH TIME ZONE, JSONB) TO authenticated;
@@ -0,0 +1,152 @@
+-- RadarPro PostGIS Spatial Queries
+-- This SQL script gives each report a PostGIS geography point, kept in sync
+-- with latitude/longitude by a trigger, and rewrites the radius and bounding
+-- box RPCs to use ST_DWithin so they can use a spatial index.
+-- Run it after setup_report_votes.sql and setup_map_queries.sql in the Supabase SQL editor.
+
+-- Supabase installs extensions into the extensions schema
+CREATE EXTENSION IF NOT EXISTS postgis WITH SCHEMA extensions;
+
+ALTER TABLE public.reports
+    ADD COLUMN IF NOT EXISTS location extensions.geography(Point, 4326);
+
+-- Keep the geography point in sync with latitude/longitude
+CREATE OR REPLACE FUNCTION public.sync_report_location()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public, extensions
+AS $$
+BEGIN
+    NEW.location = ST_SetSRID(ST_MakePoint(NEW.longitude, NEW.latitude), 4326)::geography;
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS sync_report_location ON public.reports;
+CREATE TRIGGER sync_report_location BEFORE INSERT OR UPDATE OF latitude, longitude ON public.reports
+    FOR EACH ROW EXECUTE FUNCTION public.sync_report_location();
+
+-- Filling in the location must not restart a report's lifetime
+-- (replaces the version from setup_report_votes.sql)
+CREATE OR REPLACE FUNCTION public.update_report_updated_at_column()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF (to_jsonb(NEW) - ARRAY['confirm_count', 'deny_count', 'last_confirmed_at', 'location', 'updated_at'])
+        = (to_jsonb(OLD) - ARRAY['confirm_count', 'deny_count', 'last_confirmed_at', 'location', 'updated_at']) THEN
+        NEW.updated_at = OLD.updated_at;
+    ELSE
+        NEW.updated_at = NOW();
+    END IF;
+    RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+-- Backfill existing reports
+UPDATE public.reports
+SET location = extensions.ST_SetSRID(extensions.ST_MakePoint(longitude, latitude), 4326)::extensions.geography
+WHERE location IS NULL;
+
+ALTER TABLE public.reports ALTER COLUMN location SET NOT NULL;
+
+-- The old index was on point(latitude, longitude), which no query uses
+DROP INDEX IF EXISTS public.idx_reports_location;
+CREATE INDEX IF NOT EXISTS idx_reports_location_geography
+    ON public.reports USING GIST (location);
+
+-- Active reports within radius_param meters, nearest first
+-- (replaces the law-of-cosines version from database_schema.sql)
+DROP FUNCTION IF EXISTS public.get_reports_within_radius(DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION);
+CREATE OR REPLACE FUNCTION public.get_reports_within_radius(
+    lat_param DOUBLE PRECISION,
+    lng_param DOUBLE PRECISION,
+    radius_param DOUBLE PRECISION,
+    limit_param INTEGER DEFAULT 200
+)
+RETURNS SETOF public.reports
+LANGUAGE sql
+STABLE
+SET search_path = public, extensions
+AS $$
+    SELECT r.*
+    FROM public.reports r
+    WHERE r.status = 'active'
+    AND ST_DWithin(
+        r.location,
+        ST_SetSRID(ST_MakePoint(lng_param, lat_param), 4326)::geography,
+        radius_param
+    )
+    ORDER BY ST_Distance(
+        r.location,
+        ST_SetSRID(ST_MakePoint(lng_param, lat_param), 4326)::geography
+    )
+    LIMIT LEAST(GREATEST(COALESCE(limit_param, 200), 1), 500);
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_reports_within_radius(DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, INTEGER) TO anon, authenticated;
+
+-- Active reports inside a bounding box, most recently updated first
+-- ST_DWithin around the box's center narrows the search through the spatial
+-- index, then the exact latitude/longitude bounds are applied
+-- (replaces the version from setup_map_queries.sql)
+CREATE OR REPLACE FUNCTION public.get_reports_in_bbox(
+    min_lat_param DOUBLE PRECISION,
+    min_lng_param DOUBLE PRECISION,
+    max_lat_param DOUBLE PRECISION,
+    max_lng_param DOUBLE PRECISION,
+    limit_param INTEGER DEFAULT 200
+)
+RETURNS SETOF public.reports
+LANGUAGE sql
+STABLE
+SET search_path = public, extensions
+AS $$
+    WITH box AS (
+        SELECT
+            (min_lat_param + max_lat_param) / 2 AS center_lat,
+            CASE
+                WHEN min_lng_param <= max_lng_param
+                    THEN (min_lng_param + max_lng_param) / 2
+                WHEN (min_lng_param + max_lng_param + 360) / 2 > 180
+                    THEN (min_lng_param + max_lng_param + 360) / 2 - 360
+                ELSE (min_lng_param + max_lng_param + 360) / 2
+            END AS center_lng
+    ),
+    search_area AS (
+        SELECT
+            ST_SetSRID(ST_MakePoint(box.center_lng, box.center_lat), 4326)::geography AS center,
+            -- Farthest corner or edge midpoint, plus a small margin
+            (
+                SELECT MAX(ST_Distance(
+                    ST_SetSRID(ST_MakePoint(box.center_lng, box.center_lat), 4326)::geography,
+                    ST_SetSRID(ST_MakePoint(p.lng, p.lat), 4326)::geography
+                ))
+                FROM (VALUES
+                    (min_lat_param, min_lng_param),
+                    (min_lat_param, max_lng_param),
+                    (max_lat_param, min_lng_param),
+                    (max_lat_param, max_lng_param),
+                    (min_lat_param, box.center_lng),
+                    (max_lat_param, box.center_lng),
+                    (box.center_lat, min_lng_param),
+                    (box.center_lat, max_lng_param)
+                ) AS p(lat, lng)
+            ) * 1.01 AS radius
+        FROM box
+    )
+    SELECT r.*
+    FROM public.reports r, search_area
+    WHERE r.status = 'active'
+    AND ST_DWithin(r.location, search_area.center, search_area.radius)
+    AND r.latitude BETWEEN min_lat_param AND max_lat_param
+    AND (
+        CASE
+            WHEN min_lng_param <= max_lng_param
+                THEN r.longitude BETWEEN min_lng_param AND max_lng_param
+            ELSE r.longitude >= min_lng_param OR r.longitude <= max_lng_param
+        END
+    )
+    ORDER BY r.updated_at DESC
+    LIMIT LEAST(GREATEST(COALESCE(limit_param, 200), 1), 500);
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_reports_in_bbox(DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, INTEGER) TO anon, authenticated;
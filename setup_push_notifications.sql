@@ -0,0 +1,222 @@
+-- RadarPro Server Push Notifications
+-- This SQL script stores Expo push tokens (several devices per user) and fans
+-- out a push notification to nearby users whenever a report is inserted, so
+-- users hear about reports even when the app is closed.
+-- Run it after setup_category_config.sql in the Supabase SQL editor.
+
+-- pg_net sends HTTP requests from the database without blocking the insert
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+-- Push tokens, one row per device
+CREATE TABLE IF NOT EXISTS public.push_tokens (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    user_id UUID REFERENCES public.users(id) ON DELETE CASCADE NOT NULL,
+    token TEXT UNIQUE NOT NULL,
+    platform TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_push_tokens_user_id ON public.push_tokens(user_id);
+
+DROP TRIGGER IF EXISTS update_push_tokens_updated_at ON public.push_tokens;
+CREATE TRIGGER update_push_tokens_updated_at BEFORE UPDATE ON public.push_tokens
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE public.push_tokens ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own push tokens" ON public.push_tokens;
+CREATE POLICY "Users can view their own push tokens" ON public.push_tokens
+    FOR SELECT USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can register their own push tokens" ON public.push_tokens;
+CREATE POLICY "Users can register their own push tokens" ON public.push_tokens
+    FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can update their own push tokens" ON public.push_tokens;
+CREATE POLICY "Users can update their own push tokens" ON public.push_tokens
+    FOR UPDATE USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can delete their own push tokens" ON public.push_tokens;
+CREATE POLICY "Users can delete their own push tokens" ON public.push_tokens
+    FOR DELETE USING (auth.uid() = user_id);
+
+-- A device moving to another account takes its token along
+CREATE OR REPLACE FUNCTION public.register_push_token(token_param TEXT, platform_param TEXT)
+RETURNS public.push_tokens
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    registered public.push_tokens;
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'You must be signed in to register a push token';
+    END IF;
+
+    INSERT INTO public.push_tokens (user_id, token, platform)
+    VALUES (auth.uid(), token_param, platform_param)
+    ON CONFLICT (token)
+    DO UPDATE SET user_id = EXCLUDED.user_id, platform = EXCLUDED.platform
+    RETURNING * INTO registered;
+
+    RETURN registered;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.register_push_token(TEXT, TEXT) TO authenticated;
+
+-- Last known location, reported by the app while it is open
+-- Kept out of public.users because user rows are readable by everyone
+CREATE TABLE IF NOT EXISTS public.user_locations (
+    user_id UUID REFERENCES public.users(id) ON DELETE CASCADE PRIMARY KEY,
+    latitude DOUBLE PRECISION NOT NULL,
+    longitude DOUBLE PRECISION NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+DROP TRIGGER IF EXISTS update_user_locations_updated_at ON public.user_locations;
+CREATE TRIGGER update_user_locations_updated_at BEFORE UPDATE ON public.user_locations
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE public.user_locations ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own location" ON public.user_locations;
+CREATE POLICY "Users can view their own location" ON public.user_locations
+    FOR SELECT USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can insert their own location" ON public.user_locations;
+CREATE POLICY "Users can insert their own location" ON public.user_locations
+    FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can update their own location" ON public.user_locations;
+CREATE POLICY "Users can update their own location" ON public.user_locations
+    FOR UPDATE USING (auth.uid() = user_id);
+
+-- Server-side settings; point expo_push_url at a local stub to capture messages in tests
+CREATE TABLE IF NOT EXISTS public.app_settings (
+    key TEXT PRIMARY KEY,
+    value TEXT NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE public.app_settings ENABLE ROW LEVEL SECURITY;
+
+INSERT INTO public.app_settings (key, value)
+VALUES
+    ('expo_push_url', 'https://exp.host/--/api/v2/push/send'),
+    ('push_location_max_age_hours', '24')
+ON CONFLICT (key) DO NOTHING;
+
+-- NotificationPreferences key for each report category
+-- (matches preferenceKey in src/utils/categories.ts)
+CREATE OR REPLACE FUNCTION public.category_preference_key(category_param TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+    SELECT CASE category_param
+        WHEN 'police_checkpoint' THEN 'police_checkpoints'
+        WHEN 'accident' THEN 'accidents'
+        WHEN 'road_hazard' THEN 'road_hazards'
+        WHEN 'traffic_jam' THEN 'traffic_jams'
+        WHEN 'weather_alert' THEN 'weather_alerts'
+        ELSE 'general_alerts'
+    END;
+$$;
+
+-- Send a push notification about a report to every nearby user who wants it
+-- Returns the number of messages queued
+CREATE OR REPLACE FUNCTION public.fan_out_report_push(report_id_param UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    report public.reports;
+    push_url TEXT;
+    max_age_hours INTEGER;
+    sound TEXT;
+    messages JSONB;
+    batch JSONB;
+    message_count INTEGER := 0;
+BEGIN
+    SELECT * INTO report FROM public.reports WHERE id = report_id_param;
+    IF NOT FOUND OR report.status <> 'active' THEN
+        RETURN 0;
+    END IF;
+
+    SELECT value INTO push_url FROM public.app_settings WHERE key = 'expo_push_url';
+    SELECT value::INTEGER INTO max_age_hours FROM public.app_settings WHERE key = 'push_location_max_age_hours';
+    SELECT c.notification_sound INTO sound FROM public.category_config c WHERE c.category = report.category;
+
+    SELECT COALESCE(jsonb_agg(jsonb_build_object(
+        'to', t.token,
+        'title', initcap(replace(report.category, '_', ' ')),
+        'body', report.description,
+        'sound', COALESCE(sound, 'default'),
+        'priority', 'high',
+        'data', jsonb_build_object('reportId', report.id, 'category', report.category)
+    )), '[]'::jsonb)
+    INTO messages
+    FROM public.users u
+    JOIN public.user_locations l ON l.user_id = u.id
+    JOIN public.push_tokens t ON t.user_id = u.id
+    WHERE u.id <> report.user_id
+    AND COALESCE((u.notification_preferences ->> public.category_preference_key(report.category))::BOOLEAN, true)
+    AND l.updated_at > NOW() - make_interval(hours => COALESCE(max_age_hours, 24))
+    AND (
+        6371000 * acos(LEAST(1, GREATEST(-1,
+            cos(radians(report.latitude)) *
+            cos(radians(l.latitude)) *
+            cos(radians(l.longitude) - radians(report.longitude)) +
+            sin(radians(report.latitude)) *
+            sin(radians(l.latitude))
+        )))
+    ) <= u.notification_radius;
+
+    -- Expo accepts at most 100 messages per request
+    FOR batch IN
+        SELECT jsonb_agg(m.value)
+        FROM jsonb_array_elements(messages) WITH ORDINALITY AS m(value, position)
+        GROUP BY (m.position - 1) / 100
+    LOOP
+        PERFORM net.http_post(
+            url := push_url,
+            body := batch,
+            headers := jsonb_build_object(
+                'Content-Type', 'application/json',
+                'Accept', 'application/json'
+            )
+        );
+        message_count := message_count + jsonb_array_length(batch);
+    END LOOP;
+
+    RETURN message_count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.fan_out_report_push(UUID) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.handle_new_report_push()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    PERFORM public.fan_out_report_push(NEW.id);
+    RETURN NEW;
+EXCEPTION WHEN OTHERS THEN
+    -- Never block a report because push delivery failed
+    RAISE WARNING 'Push fan-out failed for report %: %', NEW.id, SQLERRM;
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_report_created_push ON public.reports;
+CREATE TRIGGER on_report_created_push
+    AFTER INSERT ON public.reports
+    FOR EACH ROW EXECUTE FUNCTION public.handle_new_report_push();
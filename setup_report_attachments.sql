@@ -0,0 +1,61 @@
+-- RadarPro Atomic Report Creation
+-- This SQL script adds an RPC that inserts a report and its media_files rows in
+-- one transaction, plus the storage policies the app needs to stage uploads.
+-- The app uploads attachments under staging/ first, moves them into place and
+-- then calls create_report_with_media, removing the files if anything fails.
+-- Run it after setup_postgis.sql in the Supabase SQL editor.
+
+-- Create a report and its attachments together
+-- media_param is an array of { file_type, file_url, file_name } objects
+CREATE OR REPLACE FUNCTION public.create_report_with_media(
+    id_param UUID,
+    category_param TEXT,
+    description_param TEXT,
+    latitude_param DOUBLE PRECISION,
+    longitude_param DOUBLE PRECISION,
+    report_timestamp_param TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+    media_param JSONB DEFAULT '[]'::jsonb
+)
+RETURNS public.reports
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+    created public.reports;
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'You must be signed in to create a report';
+    END IF;
+
+    INSERT INTO public.reports (id, user_id, category, description, latitude, longitude, report_timestamp, status)
+    VALUES (
+        COALESCE(id_param, uuid_generate_v4()),
+        auth.uid(),
+        category_param,
+        description_param,
+        latitude_param,
+        longitude_param,
+        -- Queued reports keep their capture time, but never one in the future
+        LEAST(COALESCE(report_timestamp_param, NOW()), NOW()),
+        'active'
+    )
+    RETURNING * INTO created;
+
+    INSERT INTO public.media_files (report_id, file_type, file_url, file_name)
+    SELECT created.id, m.value ->> 'file_type', m.value ->> 'file_url', m.value ->> 'file_name'
+    FROM jsonb_array_elements(COALESCE(media_param, '[]'::jsonb)) AS m(value);
+
+    RETURN created;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.create_report_with_media(UUID, TEXT, TEXT, DOUBLE PRECISION, DOUBLE PRECISION, TIMESTAMP WITH TIME ZONE, JSONB) TO authenticated;
+
+-- Uploaders may overwrite, move and remove their own files (staging and cleanup)
+DROP POLICY IF EXISTS "Users can update their own media files" ON storage.objects;
+CREATE POLICY "Users can update their own media files" ON storage.objects
+    FOR UPDATE USING (bucket_id = 'media' AND owner_id = auth.uid()::text);
+
+DROP POLICY IF EXISTS "Users can delete their own media files" ON storage.objects;
+CREATE POLICY "Users can delete their own media files" ON storage.objects
+    FOR DELETE USING (bucket_id = 'media' AND owner_id = auth.uid()::text);
@@ -0,0 +1,112 @@
+-- RadarPro Report Comments
+-- This SQL script lets drivers add follow-up comments to a report, such as
+-- "left lane now open", without posting a new report. comment_count on the
+-- report is kept up to date for cards and the timeline.
+-- Run it after setup_report_edits.sql in the Supabase SQL editor.
+
+CREATE TABLE IF NOT EXISTS public.report_comments (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    report_id UUID REFERENCES public.reports(id) ON DELETE CASCADE NOT NULL,
+    user_id UUID REFERENCES public.users(id) ON DELETE CASCADE NOT NULL,
+    body TEXT NOT NULL CHECK (char_length(btrim(body)) BETWEEN 1 AND 500),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_report_comments_report_id ON public.report_comments(report_id, created_at);
+
+ALTER TABLE public.reports ADD COLUMN IF NOT EXISTS comment_count INTEGER NOT NULL DEFAULT 0;
+
+DROP TRIGGER IF EXISTS update_report_comments_updated_at ON public.report_comments;
+CREATE TRIGGER update_report_comments_updated_at BEFORE UPDATE ON public.report_comments
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Anyone can read comments; signed-in users can comment on reports that are
+-- still on the road, and change or delete their own comments
+ALTER TABLE public.report_comments ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can view report comments" ON public.report_comments;
+CREATE POLICY "Anyone can view report comments" ON public.report_comments
+    FOR SELECT USING (true);
+
+DROP POLICY IF EXISTS "Users can comment on active reports" ON public.report_comments;
+CREATE POLICY "Users can comment on active reports" ON public.report_comments
+    FOR INSERT WITH CHECK (
+        auth.uid() = user_id
+        AND EXISTS (
+            SELECT 1 FROM public.reports r
+            WHERE r.id = report_id AND r.status IN ('active', 'merged')
+        )
+    );
+
+DROP POLICY IF EXISTS "Users can update own comments" ON public.report_comments;
+CREATE POLICY "Users can update own comments" ON public.report_comments
+    FOR UPDATE USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can delete own comments" ON public.report_comments;
+CREATE POLICY "Users can delete own comments" ON public.report_comments
+    FOR DELETE USING (auth.uid() = user_id);
+
+GRANT SELECT ON public.report_comments TO anon;
+GRANT SELECT, INSERT, DELETE ON public.report_comments TO authenticated;
+GRANT UPDATE (body) ON public.report_comments TO authenticated;
+
+-- Stream comments to open detail screens
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_publication_tables
+        WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'report_comments'
+    ) THEN
+        ALTER PUBLICATION supabase_realtime ADD TABLE public.report_comments;
+    END IF;
+END;
+$$;
+
+-- Keep comment_count in step with the comments on a report
+CREATE OR REPLACE FUNCTION public.count_report_comments()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    target_id UUID := COALESCE(NEW.report_id, OLD.report_id);
+BEGIN
+    UPDATE public.reports
+    SET comment_count = (SELECT COUNT(*) FROM public.report_comments WHERE report_id = target_id)
+    WHERE id = target_id;
+
+    RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS count_report_comments ON public.report_comments;
+CREATE TRIGGER count_report_comments
+    AFTER INSERT OR DELETE ON public.report_comments
+    FOR EACH ROW EXECUTE FUNCTION public.count_report_comments();
+
+-- A comment is not a confirmation; it must not restart the report's lifetime
+-- (replaces the version from setup_incidents.sql)
+CREATE OR REPLACE FUNCTION public.update_report_updated_at_column()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF (to_jsonb(NEW) - ARRAY['confirm_count', 'deny_count', 'last_confirmed_at', 'reporter_count', 'location', 'footprint', 'incident_id', 'comment_count', 'updated_at'])
+        = (to_jsonb(OLD) - ARRAY['confirm_count', 'deny_count', 'last_confirmed_at', 'reporter_count', 'location', 'footprint', 'incident_id', 'comment_count', 'updated_at']) THEN
+        NEW.updated_at = OLD.updated_at;
+    ELSE
+        NEW.updated_at = NOW();
+    END IF;
+    RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+-- Count comments left before this script was run
+UPDATE public.reports r
+SET comment_count = counts.total
+FROM (
+    SELECT report_id, COUNT(*) AS total
+    FROM public.report_comments
+    GROUP BY report_id
+) AS counts
+WHERE r.id = counts.report_id AND r.comment_count <> counts.total;
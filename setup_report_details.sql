@@ -0,0 +1,152 @@
+-- RadarPro Category-Specific Report Details
+-- This SQL script adds a details JSONB column to reports for structured,
+-- per-category fields (lanes blocked, checkpoint type, severity, ...), validates
+-- it with a check constraint and lets create_report_with_media store it.
+-- Run it after setup_media_thumbnails.sql in the Supabase SQL editor.
+
+-- Whether details only holds the fields defined for the category, with valid values
+-- (match the fields in CATEGORY_REGISTRY in src/utils/categories.ts)
+CREATE OR REPLACE FUNCTION public.valid_report_details(category_param TEXT, details_param JSONB)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+    field RECORD;
+    number_value NUMERIC;
+BEGIN
+    IF jsonb_typeof(details_param) IS DISTINCT FROM 'object' THEN
+        RETURN FALSE;
+    END IF;
+
+    FOR field IN SELECT key, value FROM jsonb_each(details_param)
+    LOOP
+        IF jsonb_typeof(field.value) = 'number' THEN
+            number_value := (field.value #>> '{}')::NUMERIC;
+            IF number_value <> TRUNC(number_value) THEN
+                RETURN FALSE;
+            END IF;
+        ELSE
+            number_value := NULL;
+        END IF;
+
+        CASE category_param || '.' || field.key
+            WHEN 'accident.lanes_blocked' THEN
+                IF number_value IS NULL OR number_value NOT BETWEEN 0 AND 8 THEN
+                    RETURN FALSE;
+                END IF;
+            WHEN 'accident.vehicles_involved' THEN
+                IF number_value IS NULL OR number_value NOT BETWEEN 1 AND 20 THEN
+                    RETURN FALSE;
+                END IF;
+            WHEN 'accident.injuries' THEN
+                IF field.value #>> '{}' NOT IN ('none', 'minor', 'serious', 'unknown')
+                    OR jsonb_typeof(field.value) <> 'string' THEN
+                    RETURN FALSE;
+                END IF;
+            WHEN 'police_checkpoint.checkpoint_type' THEN
+                IF field.value #>> '{}' NOT IN ('sobriety', 'speed', 'documents', 'other')
+                    OR jsonb_typeof(field.value) <> 'string' THEN
+                    RETURN FALSE;
+                END IF;
+            WHEN 'police_checkpoint.direction' THEN
+                IF field.value #>> '{}' NOT IN ('northbound', 'southbound', 'eastbound', 'westbound', 'both')
+                    OR jsonb_typeof(field.value) <> 'string' THEN
+                    RETURN FALSE;
+                END IF;
+            WHEN 'traffic_jam.severity' THEN
+                IF field.value #>> '{}' NOT IN ('light', 'moderate', 'heavy', 'standstill')
+                    OR jsonb_typeof(field.value) <> 'string' THEN
+                    RETURN FALSE;
+                END IF;
+            WHEN 'weather_alert.kind' THEN
+                IF field.value #>> '{}' NOT IN ('flooding', 'fog', 'ice', 'snow', 'high_wind', 'hail', 'other')
+                    OR jsonb_typeof(field.value) <> 'string' THEN
+                    RETURN FALSE;
+                END IF;
+            ELSE
+                RETURN FALSE;
+        END CASE;
+    END LOOP;
+
+    RETURN TRUE;
+END;
+$$;
+
+ALTER TABLE public.reports ADD COLUMN IF NOT EXISTS details JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+ALTER TABLE public.reports DROP CONSTRAINT IF EXISTS reports_details_check;
+ALTER TABLE public.reports
+    ADD CONSTRAINT reports_details_check CHECK (public.valid_report_details(category, details));
+
+-- Speeds up timeline filters on detail fields
+CREATE INDEX IF NOT EXISTS idx_reports_details ON public.reports USING GIN (details);
+
+-- Create a report and its attachments together
+-- (replaces the version from setup_media_thumbnails.sql, adding details_param)
+-- media_param is an array of { file_type, file_url, file_name, thumbnail_url, thumbnail_name }
+-- objects; the thumbnail fields are optional
+DROP FUNCTION IF EXISTS public.create_report_with_media(UUID, TEXT, TEXT, DOUBLE PRECISION, DOUBLE PRECISION, TIMESTAMP WITH TIME ZONE, JSONB);
+
+CREATE OR REPLACE FUNCTION public.create_report_with_media(
+    id_param UUID,
+    category_param TEXT,
+    description_param TEXT,
+    latitude_param DOUBLE PRECISION,
+    longitude_param DOUBLE PRECISION,
+    report_timestamp_param TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+    media_param JSONB DEFAULT '[]'::jsonb,
+    details_param JSONB DEFAULT '{}'::jsonb
+)
+RETURNS public.reports
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+    created public.reports;
+    item JSONB;
+    original_id UUID;
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'You must be signed in to create a report';
+    END IF;
+
+    INSERT INTO public.reports (id, user_id, category, description, details, latitude, longitude, report_timestamp, status)
+    VALUES (
+        COALESCE(id_param, uuid_generate_v4()),
+        auth.uid(),
+        category_param,
+        description_param,
+        COALESCE(details_param, '{}'::jsonb),
+        latitude_param,
+        longitude_param,
+        -- Queued reports keep their capture time, but never one in the future
+        LEAST(COALESCE(report_timestamp_param, NOW()), NOW()),
+        'active'
+    )
+    RETURNING * INTO created;
+
+    FOR item IN SELECT * FROM jsonb_array_elements(COALESCE(media_param, '[]'::jsonb))
+    LOOP
+        INSERT INTO public.media_files (report_id, file_type, file_url, file_name, variant)
+        VALUES (created.id, item ->> 'file_type', item ->> 'file_url', item ->> 'file_name', 'original')
+        RETURNING id INTO original_id;
+
+        IF item ->> 'thumbnail_url' IS NOT NULL THEN
+            INSERT INTO public.media_files (report_id, file_type, file_url, file_name, variant, source_media_id)
+            VALUES (
+                created.id,
+                item ->> 'file_type',
+                item ->> 'thumbnail_url',
+                item ->> 'thumbnail_name',
+                'thumbnail',
+                original_id
+            );
+        END IF;
+    END LOOP;
+
+    RETURN created;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.create_report_with_media(UUID, TEXT, TEXT, DOUBLE PRECISION, DOUBLE PRECISION, TIMESTAMP WITH TIME ZONE, JSONB, JSONB) TO authenticated;
@@ -0,0 +1,96 @@
+-- RadarPro Report Direction
+-- This SQL script adds an optional heading (direction of travel affected, in
+-- degrees clockwise from north) and road side to reports, a user setting to
+-- skip alerts for reports facing away from the user, and lets
+-- create_report_with_media store the new columns.
+-- Run it after setup_report_details.sql in the Supabase SQL editor.
+
+ALTER TABLE public.reports
+    ADD COLUMN IF NOT EXISTS heading DOUBLE PRECISION,
+    ADD COLUMN IF NOT EXISTS road_side TEXT;
+
+ALTER TABLE public.reports DROP CONSTRAINT IF EXISTS reports_heading_check;
+ALTER TABLE public.reports
+    ADD CONSTRAINT reports_heading_check CHECK (heading IS NULL OR (heading >= 0 AND heading < 360));
+
+ALTER TABLE public.reports DROP CONSTRAINT IF EXISTS reports_road_side_check;
+ALTER TABLE public.reports
+    ADD CONSTRAINT reports_road_side_check CHECK (road_side IS NULL OR road_side IN ('right', 'left', 'both'));
+
+-- Alerts for reports facing away from the user's course are skipped unless turned off
+ALTER TABLE public.users ADD COLUMN IF NOT EXISTS ignore_opposite_direction BOOLEAN NOT NULL DEFAULT TRUE;
+
+-- Create a report and its attachments together
+-- (replaces the version from setup_report_details.sql, adding heading_param and road_side_param)
+-- media_param is an array of { file_type, file_url, file_name, thumbnail_url, thumbnail_name }
+-- objects; the thumbnail fields are optional
+DROP FUNCTION IF EXISTS public.create_report_with_media(UUID, TEXT, TEXT, DOUBLE PRECISION, DOUBLE PRECISION, TIMESTAMP WITH TIME ZONE, JSONB, JSONB);
+
+CREATE OR REPLACE FUNCTION public.create_report_with_media(
+    id_param UUID,
+    category_param TEXT,
+    description_param TEXT,
+    latitude_param DOUBLE PRECISION,
+    longitude_param DOUBLE PRECISION,
+    report_timestamp_param TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+    media_param JSONB DEFAULT '[]'::jsonb,
+    details_param JSONB DEFAULT '{}'::jsonb,
+    heading_param DOUBLE PRECISION DEFAULT NULL,
+    road_side_param TEXT DEFAULT NULL
+)
+RETURNS public.reports
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+    created public.reports;
+    item JSONB;
+    original_id UUID;
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'You must be signed in to create a report';
+    END IF;
+
+    INSERT INTO public.reports (
+        id, user_id, category, description, details, latitude, longitude, heading, road_side, report_timestamp, status
+    )
+    VALUES (
+        COALESCE(id_param, uuid_generate_v4()),
+        auth.uid(),
+        category_param,
+        description_param,
+        COALESCE(details_param, '{}'::jsonb),
+        latitude_param,
+        longitude_param,
+        heading_param,
+        road_side_param,
+        -- Queued reports keep their capture time, but never one in the future
+        LEAST(COALESCE(report_timestamp_param, NOW()), NOW()),
+        'active'
+    )
+    RETURNING * INTO created;
+
+    FOR item IN SELECT * FROM jsonb_array_elements(COALESCE(media_param, '[]'::jsonb))
+    LOOP
+        INSERT INTO public.media_files (report_id, file_type, file_url, file_name, variant)
+        VALUES (created.id, item ->> 'file_type', item ->> 'file_url', item ->> 'file_name', 'original')
+        RETURNING id INTO original_id;
+
+        IF item ->> 'thumbnail_url' IS NOT NULL THEN
+            INSERT INTO public.media_files (report_id, file_type, file_url, file_name, variant, source_media_id)
+            VALUES (
+                created.id,
+                item ->> 'file_type',
+                item ->> 'thumbnail_url',
+                item ->> 'thumbnail_name',
+                'thumbnail',
+                original_id
+            );
+        END IF;
+    END LOOP;
+
+    RETURN created;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.create_report_with_media(UUID, TEXT, TEXT, DOUBLE PRECISION, DOUBLE PRECISION, TIMESTAMP WITH TIME ZONE, JSONB, JSONB, DOUBLE PRECISION, TEXT) TO authenticated;
@@ -0,0 +1,236 @@
+-- RadarPro Report Editing
+-- This SQL script lets report owners edit the description and attachments of
+-- their reports, mark them resolved or delete them, through RPCs that check
+-- ownership. Every change is recorded in report_edits so other drivers can see
+-- what changed, and clients can no longer update reports directly.
+-- Run it after setup_incidents.sql in the Supabase SQL editor.
+
+ALTER TABLE public.reports ADD COLUMN IF NOT EXISTS edited_at TIMESTAMP WITH TIME ZONE;
+
+CREATE TABLE IF NOT EXISTS public.report_edits (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    report_id UUID REFERENCES public.reports(id) ON DELETE CASCADE NOT NULL,
+    user_id UUID REFERENCES public.users(id) ON DELETE CASCADE NOT NULL,
+    edit_type TEXT NOT NULL CHECK (edit_type IN ('description', 'media_added', 'media_removed', 'resolved')),
+    old_value TEXT, -- previous description, or the file type of a removed attachment
+    new_value TEXT, -- new description, or the file type of an added attachment
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_report_edits_report_id ON public.report_edits(report_id, created_at);
+
+-- Everyone can read the history; it is only written by the functions below
+ALTER TABLE public.report_edits ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can view report edits" ON public.report_edits;
+CREATE POLICY "Anyone can view report edits" ON public.report_edits
+    FOR SELECT USING (true);
+
+GRANT SELECT ON public.report_edits TO anon, authenticated;
+
+-- Resolved reports stay readable so realtime subscribers see the resolution
+-- and open report screens can show it
+-- (replaces the policy from setup_report_merging.sql)
+DROP POLICY IF EXISTS "Anyone can view active reports" ON public.reports;
+CREATE POLICY "Anyone can view active reports" ON public.reports
+    FOR SELECT USING (status IN ('active', 'merged', 'resolved'));
+
+-- Owners change their reports only through the functions below, so no change
+-- skips report_edits (drops the policy from database_schema.sql)
+DROP POLICY IF EXISTS "Users can update their own reports" ON public.reports;
+REVOKE UPDATE ON public.reports FROM anon, authenticated;
+
+-- Lock a report the current user owns, or fail
+CREATE OR REPLACE FUNCTION public.lock_own_report(report_id_param UUID)
+RETURNS public.reports
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    target public.reports;
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'You must be signed in to change a report';
+    END IF;
+
+    SELECT * INTO target FROM public.reports WHERE id = report_id_param FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Report not found';
+    END IF;
+
+    IF target.user_id <> auth.uid() THEN
+        RAISE EXCEPTION 'You can only change your own reports';
+    END IF;
+
+    RETURN target;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.lock_own_report(UUID) FROM PUBLIC, anon;
+
+-- Change the description and attachments of an active or merged report
+-- media_param has the same shape as in create_report_with_media; removing an
+-- original also removes its thumbnail
+CREATE OR REPLACE FUNCTION public.edit_report(
+    report_id_param UUID,
+    description_param TEXT DEFAULT NULL,
+    media_param JSONB DEFAULT '[]'::jsonb,
+    removed_media_ids_param UUID[] DEFAULT '{}'
+)
+RETURNS public.reports
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    target public.reports := public.lock_own_report(report_id_param);
+    removed RECORD;
+    item JSONB;
+    original_id UUID;
+    changed BOOLEAN := FALSE;
+BEGIN
+    IF target.status NOT IN ('active', 'merged') THEN
+        RAISE EXCEPTION 'Only active reports can be edited';
+    END IF;
+
+    IF description_param IS NOT NULL AND description_param <> target.description THEN
+        IF btrim(description_param) = '' THEN
+            RAISE EXCEPTION 'The description cannot be empty';
+        END IF;
+
+        INSERT INTO public.report_edits (report_id, user_id, edit_type, old_value, new_value)
+        VALUES (target.id, auth.uid(), 'description', target.description, description_param);
+
+        UPDATE public.reports SET description = description_param WHERE id = target.id;
+
+        -- The incident history shows the report's current description
+        UPDATE public.incident_events
+        SET description = description_param
+        WHERE report_id = target.id AND event_type IN ('reported', 'update');
+        changed := TRUE;
+    END IF;
+
+    FOR removed IN
+        DELETE FROM public.media_files
+        WHERE report_id = target.id
+        AND (id = ANY(COALESCE(removed_media_ids_param, '{}')) OR source_media_id = ANY(COALESCE(removed_media_ids_param, '{}')))
+        RETURNING variant, file_type
+    LOOP
+        IF removed.variant = 'original' THEN
+            INSERT INTO public.report_edits (report_id, user_id, edit_type, old_value)
+            VALUES (target.id, auth.uid(), 'media_removed', removed.file_type);
+        END IF;
+        changed := TRUE;
+    END LOOP;
+
+    FOR item IN SELECT * FROM jsonb_array_elements(COALESCE(media_param, '[]'::jsonb))
+    LOOP
+        INSERT INTO public.media_files (report_id, file_type, file_url, file_name, variant)
+        VALUES (target.id, item ->> 'file_type', item ->> 'file_url', item ->> 'file_name', 'original')
+        RETURNING id INTO original_id;
+
+        IF item ->> 'thumbnail_url' IS NOT NULL THEN
+            INSERT INTO public.media_files (report_id, file_type, file_url, file_name, variant, source_media_id)
+            VALUES (
+                target.id,
+                item ->> 'file_type',
+                item ->> 'thumbnail_url',
+                item ->> 'thumbnail_name',
+                'thumbnail',
+                original_id
+            );
+        END IF;
+
+        INSERT INTO public.report_edits (report_id, user_id, edit_type, new_value)
+        VALUES (target.id, auth.uid(), 'media_added', item ->> 'file_type');
+        changed := TRUE;
+    END LOOP;
+
+    -- Touching the report sends the change to realtime subscribers
+    IF changed THEN
+        UPDATE public.reports SET edited_at = NOW() WHERE id = target.id RETURNING * INTO target;
+    END IF;
+
+    RETURN target;
+END;
+$$;
+
+-- Mark an active report resolved; its incident closes with it
+CREATE OR REPLACE FUNCTION public.resolve_report(report_id_param UUID)
+RETURNS public.reports
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    target public.reports := public.lock_own_report(report_id_param);
+BEGIN
+    IF target.status <> 'active' THEN
+        RAISE EXCEPTION 'Only active reports can be resolved';
+    END IF;
+
+    INSERT INTO public.report_edits (report_id, user_id, edit_type, old_value, new_value)
+    VALUES (target.id, auth.uid(), 'resolved', target.status, 'resolved');
+
+    UPDATE public.reports
+    SET status = 'resolved', edited_at = NOW()
+    WHERE id = target.id
+    RETURNING * INTO target;
+
+    RETURN target;
+END;
+$$;
+
+-- Delete a report along with the updates its owner merged into it, and return
+-- the storage paths of their attachments so the app can remove the files.
+-- Reports other drivers have merged into can only be resolved.
+CREATE OR REPLACE FUNCTION public.delete_report(report_id_param UUID)
+RETURNS TEXT[]
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    target public.reports := public.lock_own_report(report_id_param);
+    file_names TEXT[];
+BEGIN
+    IF EXISTS (
+        SELECT 1 FROM public.reports
+        WHERE merged_into = target.id AND user_id <> target.user_id
+    ) THEN
+        RAISE EXCEPTION 'Other drivers have added to this report; mark it resolved instead';
+    END IF;
+
+    SELECT COALESCE(array_agg(m.file_name), '{}') INTO file_names
+    FROM public.media_files m
+    JOIN public.reports r ON r.id = m.report_id
+    WHERE r.id = target.id OR r.merged_into = target.id;
+
+    -- Withdrawn updates disappear from their incident's history
+    DELETE FROM public.incident_events e
+    USING public.reports r
+    WHERE e.report_id = r.id AND (r.id = target.id OR r.merged_into = target.id);
+
+    DELETE FROM public.reports WHERE merged_into = target.id;
+    DELETE FROM public.reports WHERE id = target.id;
+
+    -- A withdrawn duplicate no longer counts towards its incident
+    IF target.merged_into IS NOT NULL THEN
+        UPDATE public.reports r
+        SET reporter_count = (
+            SELECT COUNT(DISTINCT m.user_id)
+            FROM public.reports m
+            WHERE m.id = r.id OR m.merged_into = r.id
+        )
+        WHERE r.id = target.merged_into;
+    END IF;
+
+    RETURN file_names;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.edit_report(UUID, TEXT, JSONB, UUID[]) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.resolve_report(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.delete_report(UUID) TO authenticated;
@@ -0,0 +1,68 @@
+-- RadarPro Server-side Report Expiry
+-- This SQL script moves report expiry into the database. A scheduled job marks
+-- active reports as expired once their category lifetime has passed, so reports
+-- expire even when no client has the app open.
+-- Run it after database_schema.sql in the Supabase SQL editor.
+
+-- Enable the scheduler (available on all Supabase projects)
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+-- Lifetime in minutes for each report category
+-- Keep in sync with EXPIRY_TIMES in src/services/reportExpiryService.ts
+CREATE OR REPLACE FUNCTION public.report_expiry_minutes(category_param TEXT)
+RETURNS INTEGER
+LANGUAGE sql
+IMMUTABLE
+AS $$
+    SELECT CASE category_param
+        WHEN 'police_checkpoint' THEN 5
+        WHEN 'weather_alert' THEN 2
+        WHEN 'accident' THEN 2
+        WHEN 'general' THEN 10
+        WHEN 'road_hazard' THEN 15
+        WHEN 'traffic_jam' THEN 15
+        ELSE 10
+    END;
+$$;
+
+-- Mark every active report whose lifetime has passed as expired
+-- Returns the number of reports that were expired
+CREATE OR REPLACE FUNCTION public.expire_stale_reports()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    expired_count INTEGER;
+BEGIN
+    UPDATE public.reports r
+    SET status = 'expired'
+    WHERE r.status = 'active'
+    AND r.updated_at + make_interval(mins => public.report_expiry_minutes(r.category)) <= NOW();
+
+    GET DIAGNOSTICS expired_count = ROW_COUNT;
+    RETURN expired_count;
+END;
+$$;
+
+-- Only the scheduler should run the expiry job
+REVOKE EXECUTE ON FUNCTION public.expire_stale_reports() FROM PUBLIC, anon, authenticated;
+
+-- Index used by the expiry job to find active reports quickly
+CREATE INDEX IF NOT EXISTS idx_reports_active_updated_at
+    ON public.reports(updated_at)
+    WHERE status = 'active';
+
+-- Run the expiry job every minute (re-running this script replaces the job)
+SELECT cron.unschedule(jobid) FROM cron.job WHERE jobname = 'expire-stale-reports';
+SELECT cron.schedule(
+    'expire-stale-reports',
+    '* * * * *',
+    $$SELECT public.expire_stale_reports()$$
+);
+
+-- Show the scheduled job
+SELECT jobid, jobname, schedule, command
+FROM cron.job
+WHERE jobname = 'expire-stale-reports';
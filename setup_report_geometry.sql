@@ -0,0 +1,309 @@
+-- RadarPro Report Geometries
+-- This SQL script lets traffic jams carry a stretch of road (GeoJSON LineString)
+-- and weather alerts an area (GeoJSON Polygon), keeps a footprint geography of
+-- the shape (or the point when there is none) in sync by trigger, and rewrites
+-- the radius and bounding box RPCs so a report matches when its shape
+-- intersects the searched area. create_report_with_media stores the geometry.
+-- Run it after setup_report_direction.sql in the Supabase SQL editor.
+
+-- Whether geometry is NULL or a shape the category allows, with 2-100 vertices
+-- (match geometryType in CATEGORY_REGISTRY and MAX_GEOMETRY_POINTS in src/utils/geometry.ts)
+CREATE OR REPLACE FUNCTION public.valid_report_geometry(category_param TEXT, geometry_param JSONB)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+    positions JSONB;
+    position JSONB;
+    vertex_count INTEGER;
+BEGIN
+    IF geometry_param IS NULL THEN
+        RETURN TRUE;
+    END IF;
+
+    CASE category_param || '.' || COALESCE(geometry_param ->> 'type', '')
+        WHEN 'traffic_jam.LineString' THEN
+            positions := geometry_param -> 'coordinates';
+            IF jsonb_typeof(positions) IS DISTINCT FROM 'array' THEN
+                RETURN FALSE;
+            END IF;
+            vertex_count := jsonb_array_length(positions);
+            IF vertex_count NOT BETWEEN 2 AND 100 THEN
+                RETURN FALSE;
+            END IF;
+        WHEN 'weather_alert.Polygon' THEN
+            -- A single closed ring, no holes
+            IF jsonb_typeof(geometry_param -> 'coordinates') IS DISTINCT FROM 'array'
+                OR jsonb_array_length(geometry_param -> 'coordinates') <> 1 THEN
+                RETURN FALSE;
+            END IF;
+            positions := geometry_param -> 'coordinates' -> 0;
+            IF jsonb_typeof(positions) IS DISTINCT FROM 'array' THEN
+                RETURN FALSE;
+            END IF;
+            vertex_count := jsonb_array_length(positions) - 1;
+            IF vertex_count NOT BETWEEN 3 AND 100 OR positions -> 0 <> positions -> -1 THEN
+                RETURN FALSE;
+            END IF;
+        ELSE
+            RETURN FALSE;
+    END CASE;
+
+    FOR position IN SELECT * FROM jsonb_array_elements(positions)
+    LOOP
+        IF jsonb_typeof(position) IS DISTINCT FROM 'array'
+            OR jsonb_array_length(position) <> 2
+            OR jsonb_typeof(position -> 0) <> 'number'
+            OR jsonb_typeof(position -> 1) <> 'number'
+            OR (position ->> 0)::DOUBLE PRECISION NOT BETWEEN -180 AND 180
+            OR (position ->> 1)::DOUBLE PRECISION NOT BETWEEN -90 AND 90 THEN
+            RETURN FALSE;
+        END IF;
+    END LOOP;
+
+    RETURN TRUE;
+END;
+$$;
+
+ALTER TABLE public.reports
+    ADD COLUMN IF NOT EXISTS geometry JSONB,
+    ADD COLUMN IF NOT EXISTS footprint extensions.geography(Geometry, 4326);
+
+ALTER TABLE public.reports DROP CONSTRAINT IF EXISTS reports_geometry_check;
+ALTER TABLE public.reports
+    ADD CONSTRAINT reports_geometry_check CHECK (public.valid_report_geometry(category, geometry));
+
+-- Keep the geography point and footprint in sync with latitude/longitude and geometry
+-- (replaces the version from setup_postgis.sql)
+CREATE OR REPLACE FUNCTION public.sync_report_location()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public, extensions
+AS $$
+DECLARE
+    shape geometry;
+BEGIN
+    NEW.location = ST_SetSRID(ST_MakePoint(NEW.longitude, NEW.latitude), 4326)::geography;
+
+    IF NEW.geometry IS NULL THEN
+        NEW.footprint = NEW.location;
+    ELSE
+        shape := ST_SetSRID(ST_GeomFromGeoJSON(NEW.geometry::text), 4326);
+        IF NOT ST_IsValid(shape) THEN
+            RAISE EXCEPTION 'Report geometry is not valid: %', ST_IsValidReason(shape);
+        END IF;
+        NEW.footprint = shape::geography;
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS sync_report_location ON public.reports;
+CREATE TRIGGER sync_report_location BEFORE INSERT OR UPDATE OF latitude, longitude, geometry ON public.reports
+    FOR EACH ROW EXECUTE FUNCTION public.sync_report_location();
+
+-- Filling in the location or footprint must not restart a report's lifetime
+-- (replaces the version from setup_postgis.sql)
+CREATE OR REPLACE FUNCTION public.update_report_updated_at_column()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF (to_jsonb(NEW) - ARRAY['confirm_count', 'deny_count', 'last_confirmed_at', 'location', 'footprint', 'updated_at'])
+        = (to_jsonb(OLD) - ARRAY['confirm_count', 'deny_count', 'last_confirmed_at', 'location', 'footprint', 'updated_at']) THEN
+        NEW.updated_at = OLD.updated_at;
+    ELSE
+        NEW.updated_at = NOW();
+    END IF;
+    RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+-- Backfill existing reports
+UPDATE public.reports
+SET footprint = location
+WHERE footprint IS NULL;
+
+ALTER TABLE public.reports ALTER COLUMN footprint SET NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_reports_footprint
+    ON public.reports USING GIST (footprint);
+
+-- Active reports whose point or shape comes within radius_param meters, nearest first
+-- (replaces the version from setup_postgis.sql)
+CREATE OR REPLACE FUNCTION public.get_reports_within_radius(
+    lat_param DOUBLE PRECISION,
+    lng_param DOUBLE PRECISION,
+    radius_param DOUBLE PRECISION,
+    limit_param INTEGER DEFAULT 200
+)
+RETURNS SETOF public.reports
+LANGUAGE sql
+STABLE
+SET search_path = public, extensions
+AS $$
+    SELECT r.*
+    FROM public.reports r
+    WHERE r.status = 'active'
+    AND ST_DWithin(
+        r.footprint,
+        ST_SetSRID(ST_MakePoint(lng_param, lat_param), 4326)::geography,
+        radius_param
+    )
+    ORDER BY ST_Distance(
+        r.footprint,
+        ST_SetSRID(ST_MakePoint(lng_param, lat_param), 4326)::geography
+    )
+    LIMIT LEAST(GREATEST(COALESCE(limit_param, 200), 1), 500);
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_reports_within_radius(DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, INTEGER) TO anon, authenticated;
+
+-- Active reports whose point or shape intersects a bounding box, most recently updated first
+-- ST_DWithin around the box's center narrows the search through the spatial
+-- index, then the footprint is tested against the box (split in two when it
+-- crosses the antimeridian)
+-- (replaces the version from setup_postgis.sql)
+CREATE OR REPLACE FUNCTION public.get_reports_in_bbox(
+    min_lat_param DOUBLE PRECISION,
+    min_lng_param DOUBLE PRECISION,
+    max_lat_param DOUBLE PRECISION,
+    max_lng_param DOUBLE PRECISION,
+    limit_param INTEGER DEFAULT 200
+)
+RETURNS SETOF public.reports
+LANGUAGE sql
+STABLE
+SET search_path = public, extensions
+AS $$
+    WITH box AS (
+        SELECT
+            (min_lat_param + max_lat_param) / 2 AS center_lat,
+            CASE
+                WHEN min_lng_param <= max_lng_param
+                    THEN (min_lng_param + max_lng_param) / 2
+                WHEN (min_lng_param + max_lng_param + 360) / 2 > 180
+                    THEN (min_lng_param + max_lng_param + 360) / 2 - 360
+                ELSE (min_lng_param + max_lng_param + 360) / 2
+            END AS center_lng,
+            CASE
+                WHEN min_lng_param <= max_lng_param
+                    THEN ST_MakeEnvelope(min_lng_param, min_lat_param, max_lng_param, max_lat_param, 4326)
+                ELSE ST_Collect(
+                    ST_MakeEnvelope(min_lng_param, min_lat_param, 180, max_lat_param, 4326),
+                    ST_MakeEnvelope(-180, min_lat_param, max_lng_param, max_lat_param, 4326)
+                )
+            END AS envelope
+    ),
+    search_area AS (
+        SELECT
+            ST_SetSRID(ST_MakePoint(box.center_lng, box.center_lat), 4326)::geography AS center,
+            -- Farthest corner or edge midpoint, plus a small margin
+            (
+                SELECT MAX(ST_Distance(
+                    ST_SetSRID(ST_MakePoint(box.center_lng, box.center_lat), 4326)::geography,
+                    ST_SetSRID(ST_MakePoint(p.lng, p.lat), 4326)::geography
+                ))
+                FROM (VALUES
+                    (min_lat_param, min_lng_param),
+                    (min_lat_param, max_lng_param),
+                    (max_lat_param, min_lng_param),
+                    (max_lat_param, max_lng_param),
+                    (min_lat_param, box.center_lng),
+                    (max_lat_param, box.center_lng),
+                    (box.center_lat, min_lng_param),
+                    (box.center_lat, max_lng_param)
+                ) AS p(lat, lng)
+            ) * 1.01 AS radius,
+            box.envelope
+        FROM box
+    )
+    SELECT r.*
+    FROM public.reports r, search_area
+    WHERE r.status = 'active'
+    AND ST_DWithin(r.footprint, search_area.center, search_area.radius)
+    AND ST_Intersects(r.footprint::geometry, search_area.envelope)
+    ORDER BY r.updated_at DESC
+    LIMIT LEAST(GREATEST(COALESCE(limit_param, 200), 1), 500);
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_reports_in_bbox(DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, INTEGER) TO anon, authenticated;
+
+-- Create a report and its attachments together
+-- (replaces the version from setup_report_direction.sql, adding geometry_param)
+-- media_param is an array of { file_type, file_url, file_name, thumbnail_url, thumbnail_name }
+-- objects; the thumbnail fields are optional
+DROP FUNCTION IF EXISTS public.create_report_with_media(UUID, TEXT, TEXT, DOUBLE PRECISION, DOUBLE PRECISION, TIMESTAMP WITH TIME ZONE, JSONB, JSONB, DOUBLE PRECISION, TEXT);
+
+CREATE OR REPLACE FUNCTION public.create_report_with_media(
+    id_param UUID,
+    category_param TEXT,
+    description_param TEXT,
+    latitude_param DOUBLE PRECISION,
+    longitude_param DOUBLE PRECISION,
+    report_timestamp_param TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+    media_param JSONB DEFAULT '[]'::jsonb,
+    details_param JSONB DEFAULT '{}'::jsonb,
+    heading_param DOUBLE PRECISION DEFAULT NULL,
+    road_side_param TEXT DEFAULT NULL,
+    geometry_param JSONB DEFAULT NULL
+)
+RETURNS public.reports
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+    created public.reports;
+    item JSONB;
+    original_id UUID;
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'You must be signed in to create a report';
+    END IF;
+
+    INSERT INTO public.reports (
+        id, user_id, category, description, details, latitude, longitude, heading, road_side, geometry,
+        report_timestamp, status
+    )
+    VALUES (
+        COALESCE(id_param, uuid_generate_v4()),
+        auth.uid(),
+        category_param,
+        description_param,
+        COALESCE(details_param, '{}'::jsonb),
+        latitude_param,
+        longitude_param,
+        heading_param,
+        road_side_param,
+        -- JSON null from the client means no shape
+        NULLIF(geometry_param, 'null'::jsonb),
+        -- Queued reports keep their capture time, but never one in the future
+        LEAST(COALESCE(report_timestamp_param, NOW()), NOW()),
+        'active'
+    )
+    RETURNING * INTO created;
+
+    FOR item IN SELECT * FROM jsonb_array_elements(COALESCE(media_param, '[]'::jsonb))
+    LOOP
+        INSERT INTO public.media_files (report_id, file_type, file_url, file_name, variant)
+        VALUES (created.id, item ->> 'file_type', item ->> 'file_url', item ->> 'file_name', 'original')
+        RETURNING id INTO original_id;
+
+        IF item ->> 'thumbnail_url' IS NOT NULL THEN
+            INSERT INTO public.media_files (report_id, file_type, file_url, file_name, variant, source_media_id)
+            VALUES (
+                created.id,
+                item ->> 'file_type',
+                item ->> 'thumbnail_url',
+                item ->> 'thumbnail_name',
+                'thumbnail',
+                original_id
+            );
+        END IF;
+    END LOOP;
+
+    RETURN created;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.create_report_with_media(UUID, TEXT, TEXT, DOUBLE PRECISION, DOUBLE PRECISION, TIMESTAMP WITH TIME ZONE, JSONB, JSONB, DOUBLE PRECISION, TEXT, JSONB) TO authenticated;
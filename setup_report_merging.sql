@@ -0,0 +1,149 @@
+-- RadarPro Duplicate Report Merging
+-- This SQL script links a new report to an existing active report of the same
+-- category nearby, instead of creating a second incident. The new report is
+-- stored with status 'merged' and merged_into pointing at the incident, and
+-- counts as a confirmation of it. reporter_count on the incident tracks how
+-- many people reported it.
+-- Run it after setup_report_geometry.sql in the Supabase SQL editor.
+
+ALTER TABLE public.reports DROP CONSTRAINT IF EXISTS reports_status_check;
+ALTER TABLE public.reports
+    ADD CONSTRAINT reports_status_check CHECK (status IN ('active', 'resolved', 'expired', 'merged'));
+
+ALTER TABLE public.reports
+    ADD COLUMN IF NOT EXISTS merged_into UUID REFERENCES public.reports(id) ON DELETE SET NULL,
+    ADD COLUMN IF NOT EXISTS reporter_count INTEGER NOT NULL DEFAULT 1;
+
+CREATE INDEX IF NOT EXISTS idx_reports_merged_into ON public.reports(merged_into);
+
+-- A new report within this many meters of an incident's point or shape matches it
+CREATE OR REPLACE FUNCTION public.report_merge_radius()
+RETURNS DOUBLE PRECISION
+LANGUAGE sql
+IMMUTABLE
+AS $$
+    SELECT 150::DOUBLE PRECISION;
+$$;
+
+-- ...if the incident was reported or confirmed within this many minutes
+CREATE OR REPLACE FUNCTION public.report_merge_window_minutes()
+RETURNS INTEGER
+LANGUAGE sql
+IMMUTABLE
+AS $$
+    SELECT 30;
+$$;
+
+-- Merged reports stay readable so the incident can list its reporters and media
+DROP POLICY IF EXISTS "Anyone can view active reports" ON public.reports;
+CREATE POLICY "Anyone can view active reports" ON public.reports
+    FOR SELECT USING (status IN ('active', 'merged'));
+
+-- Link a new report to the nearest matching incident. Reports facing more than
+-- 90 degrees apart are on different carriageways and never match
+-- (match MAX_HEADING_DIFFERENCE in src/services/reportAlertService.ts).
+CREATE OR REPLACE FUNCTION public.match_duplicate_report()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+    point geography := ST_SetSRID(ST_MakePoint(NEW.longitude, NEW.latitude), 4326)::geography;
+    incident_id UUID;
+BEGIN
+    IF NEW.status <> 'active' OR NEW.merged_into IS NOT NULL THEN
+        RETURN NEW;
+    END IF;
+
+    SELECT r.id INTO incident_id
+    FROM public.reports r
+    WHERE r.status = 'active'
+    AND r.category = NEW.category
+    AND r.id <> NEW.id
+    AND GREATEST(r.report_timestamp, r.last_confirmed_at)
+        >= COALESCE(NEW.report_timestamp, NOW()) - make_interval(mins => public.report_merge_window_minutes())
+    AND ST_DWithin(r.footprint, point, public.report_merge_radius())
+    AND (
+        r.heading IS NULL OR NEW.heading IS NULL
+        OR r.road_side = 'both' OR NEW.road_side = 'both'
+        OR LEAST(ABS(r.heading - NEW.heading), 360 - ABS(r.heading - NEW.heading)) <= 90
+    )
+    ORDER BY ST_Distance(r.footprint, point)
+    LIMIT 1
+    FOR UPDATE OF r;
+
+    IF incident_id IS NOT NULL THEN
+        NEW.status = 'merged';
+        NEW.merged_into = incident_id;
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS match_duplicate_report ON public.reports;
+CREATE TRIGGER match_duplicate_report BEFORE INSERT ON public.reports
+    FOR EACH ROW EXECUTE FUNCTION public.match_duplicate_report();
+
+-- Count a merged report as its author confirming the incident
+CREATE OR REPLACE FUNCTION public.handle_merged_report()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    -- Authors can't vote on their own incident, but a repeat report still refreshes it
+    IF NEW.user_id <> (SELECT user_id FROM public.reports WHERE id = NEW.merged_into) THEN
+        INSERT INTO public.report_votes (report_id, user_id, vote_type)
+        VALUES (NEW.merged_into, NEW.user_id, 'confirm')
+        ON CONFLICT (report_id, user_id)
+        DO UPDATE SET vote_type = 'confirm', updated_at = NOW();
+    END IF;
+
+    UPDATE public.reports r
+    SET
+        confirm_count = counts.confirms,
+        deny_count = counts.denies,
+        last_confirmed_at = NOW(),
+        reporter_count = (
+            SELECT COUNT(DISTINCT m.user_id)
+            FROM public.reports m
+            WHERE m.id = NEW.merged_into OR m.merged_into = NEW.merged_into
+        )
+    FROM (
+        SELECT
+            COUNT(*) FILTER (WHERE v.vote_type = 'confirm') AS confirms,
+            COUNT(*) FILTER (WHERE v.vote_type = 'deny') AS denies
+        FROM public.report_votes v
+        WHERE v.report_id = NEW.merged_into
+    ) AS counts
+    WHERE r.id = NEW.merged_into;
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_report_merged ON public.reports;
+CREATE TRIGGER on_report_merged
+    AFTER INSERT ON public.reports
+    FOR EACH ROW
+    WHEN (NEW.merged_into IS NOT NULL)
+    EXECUTE FUNCTION public.handle_merged_report();
+
+-- A new reporter confirms the incident through last_confirmed_at; the count
+-- alone must not restart its lifetime
+-- (replaces the version from setup_report_geometry.sql)
+CREATE OR REPLACE FUNCTION public.update_report_updated_at_column()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF (to_jsonb(NEW) - ARRAY['confirm_count', 'deny_count', 'last_confirmed_at', 'reporter_count', 'location', 'footprint', 'updated_at'])
+        = (to_jsonb(OLD) - ARRAY['confirm_count', 'deny_count', 'last_confirmed_at', 'reporter_count', 'location', 'footprint', 'updated_at']) THEN
+        NEW.updated_at = OLD.updated_at;
+    ELSE
+        NEW.updated_at = NOW();
+    END IF;
+    RETURN NEW;
+END;
+$$ language 'plpgsql';
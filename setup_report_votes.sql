@@ -0,0 +1,168 @@
+-- RadarPro Report Voting
+-- This SQL script lets drivers confirm that a report is still there or deny it.
+-- A confirmation pushes the report's expiry forward; enough denials resolve it.
+-- Run it after setup_report_expiry.sql in the Supabase SQL editor.
+
+-- Vote bookkeeping on reports
+ALTER TABLE public.reports ADD COLUMN IF NOT EXISTS confirm_count INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE public.reports ADD COLUMN IF NOT EXISTS deny_count INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE public.reports ADD COLUMN IF NOT EXISTS last_confirmed_at TIMESTAMP WITH TIME ZONE;
+
+-- One vote per user per report; voting again replaces the previous vote
+CREATE TABLE IF NOT EXISTS public.report_votes (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    report_id UUID REFERENCES public.reports(id) ON DELETE CASCADE NOT NULL,
+    user_id UUID REFERENCES public.users(id) ON DELETE CASCADE NOT NULL,
+    vote_type TEXT NOT NULL CHECK (vote_type IN ('confirm', 'deny')),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE (report_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_report_votes_report_id ON public.report_votes(report_id);
+
+ALTER TABLE public.report_votes ENABLE ROW LEVEL SECURITY;
+
+-- Votes are written through confirm_report / deny_report only
+DROP POLICY IF EXISTS "Anyone can view report votes" ON public.report_votes;
+CREATE POLICY "Anyone can view report votes" ON public.report_votes
+    FOR SELECT USING (true);
+
+-- Vote counters must not refresh updated_at, otherwise a denial would extend
+-- the report's lifetime. Confirmations extend it through last_confirmed_at.
+CREATE OR REPLACE FUNCTION public.update_report_updated_at_column()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF (to_jsonb(NEW) - ARRAY['confirm_count', 'deny_count', 'last_confirmed_at', 'updated_at'])
+        = (to_jsonb(OLD) - ARRAY['confirm_count', 'deny_count', 'last_confirmed_at', 'updated_at']) THEN
+        NEW.updated_at = OLD.updated_at;
+    ELSE
+        NEW.updated_at = NOW();
+    END IF;
+    RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+DROP TRIGGER IF EXISTS update_reports_updated_at ON public.reports;
+CREATE TRIGGER update_reports_updated_at BEFORE UPDATE ON public.reports
+    FOR EACH ROW EXECUTE FUNCTION public.update_report_updated_at_column();
+
+-- Number of denials that resolve a report (when they outnumber confirmations)
+CREATE OR REPLACE FUNCTION public.report_denial_threshold()
+RETURNS INTEGER
+LANGUAGE sql
+IMMUTABLE
+AS $$
+    SELECT 3;
+$$;
+
+-- Record a vote for the current user and refresh the report's counters
+CREATE OR REPLACE FUNCTION public.cast_report_vote(report_id_param UUID, vote_type_param TEXT)
+RETURNS public.reports
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    voter_id UUID := auth.uid();
+    target public.reports;
+    previous_vote TEXT;
+BEGIN
+    IF voter_id IS NULL THEN
+        RAISE EXCEPTION 'You must be signed in to vote';
+    END IF;
+
+    SELECT * INTO target FROM public.reports WHERE id = report_id_param FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Report not found';
+    END IF;
+
+    IF target.user_id = voter_id THEN
+        RAISE EXCEPTION 'You cannot vote on your own report';
+    END IF;
+
+    IF target.status <> 'active' THEN
+        RAISE EXCEPTION 'Only active reports can be voted on';
+    END IF;
+
+    SELECT v.vote_type INTO previous_vote
+    FROM public.report_votes v
+    WHERE v.report_id = report_id_param AND v.user_id = voter_id;
+
+    INSERT INTO public.report_votes (report_id, user_id, vote_type)
+    VALUES (report_id_param, voter_id, vote_type_param)
+    ON CONFLICT (report_id, user_id)
+    DO UPDATE SET vote_type = EXCLUDED.vote_type, updated_at = NOW();
+
+    UPDATE public.reports r
+    SET
+        confirm_count = counts.confirms,
+        deny_count = counts.denies,
+        -- Confirming again doesn't extend the report; a new or changed vote does
+        last_confirmed_at = CASE
+            WHEN vote_type_param = 'confirm' AND previous_vote IS DISTINCT FROM 'confirm' THEN NOW()
+            ELSE r.last_confirmed_at
+        END,
+        status = CASE
+            WHEN counts.denies >= public.report_denial_threshold()
+                AND counts.denies > counts.confirms THEN 'resolved'
+            ELSE r.status
+        END
+    FROM (
+        SELECT
+            COUNT(*) FILTER (WHERE v.vote_type = 'confirm') AS confirms,
+            COUNT(*) FILTER (WHERE v.vote_type = 'deny') AS denies
+        FROM public.report_votes v
+        WHERE v.report_id = report_id_param
+    ) AS counts
+    WHERE r.id = report_id_param
+    RETURNING r.* INTO target;
+
+    RETURN target;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.confirm_report(report_id_param UUID)
+RETURNS public.reports
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT * FROM public.cast_report_vote(report_id_param, 'confirm');
+$$;
+
+CREATE OR REPLACE FUNCTION public.deny_report(report_id_param UUID)
+RETURNS public.reports
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT * FROM public.cast_report_vote(report_id_param, 'deny');
+$$;
+
+GRANT EXECUTE ON FUNCTION public.confirm_report(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.deny_report(UUID) TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.cast_report_vote(UUID, TEXT) FROM PUBLIC, anon;
+
+-- Expiry now counts from the later of the last edit and the last confirmation
+-- (replaces the version from setup_report_expiry.sql)
+CREATE OR REPLACE FUNCTION public.expire_stale_reports()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    expired_count INTEGER;
+BEGIN
+    UPDATE public.reports r
+    SET status = 'expired'
+    WHERE r.status = 'active'
+    AND GREATEST(r.updated_at, r.last_confirmed_at)
+        + make_interval(mins => public.report_expiry_minutes(r.category)) <= NOW();
+
+    GET DIAGNOSTICS expired_count = ROW_COUNT;
+    RETURN expired_count;
+END;
+$$;
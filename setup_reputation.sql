@@ -0,0 +1,306 @@
+-- RadarPro Reporter Reputation
+-- This SQL script scores each user from 0 to 100 on their track record:
+-- confirmations and denials on their reports, how many of their finished
+-- reports were upheld rather than disputed, and moderator actions. The score
+-- is stored in users.reputation_score and refreshed whenever one of those
+-- inputs changes. Reports from low-trust users are held back from push
+-- notifications until another driver confirms them.
+-- Run it after setup_report_comments.sql in the Supabase SQL editor.
+
+ALTER TABLE public.users ADD COLUMN IF NOT EXISTS reputation_score INTEGER NOT NULL DEFAULT 50
+    CHECK (reputation_score BETWEEN 0 AND 100);
+
+ALTER TABLE public.reports ADD COLUMN IF NOT EXISTS requires_confirmation BOOLEAN NOT NULL DEFAULT false;
+
+CREATE INDEX IF NOT EXISTS idx_reports_user_id ON public.reports(user_id);
+
+-- Scores at or above this mark a trusted reporter
+-- (match TRUSTED_REPUTATION in src/utils/reputation.ts)
+CREATE OR REPLACE FUNCTION public.trusted_reputation_threshold()
+RETURNS INTEGER
+LANGUAGE sql
+IMMUTABLE
+AS $$
+    SELECT 75;
+$$;
+
+-- Reports from users scoring below this wait for a confirmation before notifying
+-- (match LOW_TRUST_REPUTATION in src/utils/reputation.ts)
+CREATE OR REPLACE FUNCTION public.low_trust_reputation_threshold()
+RETURNS INTEGER
+LANGUAGE sql
+IMMUTABLE
+AS $$
+    SELECT 30;
+$$;
+
+-- Actions moderators take on a user. There is no moderator UI yet; rows are
+-- added from the Supabase dashboard or with the service role.
+CREATE TABLE IF NOT EXISTS public.moderator_actions (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    user_id UUID REFERENCES public.users(id) ON DELETE CASCADE NOT NULL,
+    report_id UUID REFERENCES public.reports(id) ON DELETE SET NULL,
+    action_type TEXT NOT NULL CHECK (action_type IN ('warning', 'report_removed', 'endorsement')),
+    note TEXT,
+    created_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_moderator_actions_user_id ON public.moderator_actions(user_id);
+
+ALTER TABLE public.moderator_actions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view actions taken on them" ON public.moderator_actions;
+CREATE POLICY "Users can view actions taken on them" ON public.moderator_actions
+    FOR SELECT USING (auth.uid() = user_id);
+
+GRANT SELECT ON public.moderator_actions TO authenticated;
+
+-- Points each moderator action adds to or takes from a score
+CREATE OR REPLACE FUNCTION public.moderator_action_weight(action_type_param TEXT)
+RETURNS INTEGER
+LANGUAGE sql
+IMMUTABLE
+AS $$
+    SELECT CASE action_type_param
+        WHEN 'endorsement' THEN 10
+        WHEN 'warning' THEN -10
+        WHEN 'report_removed' THEN -25
+        ELSE 0
+    END;
+$$;
+
+-- A user's score and the figures it is made of. Votes weigh 60% and finished
+-- reports 40%; both ratios start from even odds, so a new user scores 50 and
+-- a single vote can't swing the score far.
+CREATE OR REPLACE FUNCTION public.get_user_reputation(user_id_param UUID)
+RETURNS TABLE (
+    reputation_score INTEGER,
+    confirmations BIGINT,
+    denials BIGINT,
+    upheld_reports BIGINT,
+    disputed_reports BIGINT,
+    moderator_adjustment INTEGER
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    SELECT
+        COALESCE(SUM(r.confirm_count), 0),
+        COALESCE(SUM(r.deny_count), 0),
+        COUNT(*) FILTER (WHERE r.status IN ('resolved', 'expired') AND r.deny_count <= r.confirm_count),
+        COUNT(*) FILTER (WHERE r.status IN ('resolved', 'expired') AND r.deny_count > r.confirm_count)
+    INTO confirmations, denials, upheld_reports, disputed_reports
+    FROM public.reports r
+    WHERE r.user_id = user_id_param;
+
+    SELECT COALESCE(SUM(public.moderator_action_weight(m.action_type)), 0)::INTEGER
+    INTO moderator_adjustment
+    FROM public.moderator_actions m
+    WHERE m.user_id = user_id_param;
+
+    reputation_score := LEAST(100, GREATEST(0, ROUND(100 * (
+        0.6 * (confirmations + 2)::NUMERIC / (confirmations + denials + 4)
+        + 0.4 * (upheld_reports + 1)::NUMERIC / (upheld_reports + disputed_reports + 2)
+    ))::INTEGER + moderator_adjustment));
+
+    RETURN NEXT;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_user_reputation(UUID) TO anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.refresh_user_reputation(user_id_param UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    UPDATE public.users u
+    SET reputation_score = rep.reputation_score
+    FROM public.get_user_reputation(user_id_param) AS rep
+    WHERE u.id = user_id_param AND u.reputation_score <> rep.reputation_score;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.refresh_user_reputation(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Users can edit their own profile, but not their score
+CREATE OR REPLACE FUNCTION public.protect_user_reputation()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF current_user IN ('anon', 'authenticated') THEN
+        NEW.reputation_score := CASE WHEN TG_OP = 'INSERT' THEN 50 ELSE OLD.reputation_score END;
+    END IF;
+    RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+DROP TRIGGER IF EXISTS protect_user_reputation ON public.users;
+CREATE TRIGGER protect_user_reputation BEFORE INSERT OR UPDATE ON public.users
+    FOR EACH ROW EXECUTE FUNCTION public.protect_user_reputation();
+
+-- Nor the report fields it is made of, or a held-back report's flag; only
+-- votes, merging and the report RPCs change those
+CREATE OR REPLACE FUNCTION public.protect_report_reputation()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF current_user NOT IN ('anon', 'authenticated') THEN
+        RETURN NEW;
+    END IF;
+
+    IF TG_OP = 'INSERT' THEN
+        NEW.confirm_count := 0;
+        NEW.deny_count := 0;
+        NEW.reporter_count := 1;
+        -- Expiry and merging count from these, so a report can't start in the future
+        NEW.last_confirmed_at := NULL;
+        NEW.updated_at := NOW();
+        -- match_duplicate_report runs first and may have marked the report merged
+        IF NEW.status NOT IN ('active', 'merged') THEN
+            NEW.status := 'active';
+        END IF;
+    ELSE
+        NEW.confirm_count := OLD.confirm_count;
+        NEW.deny_count := OLD.deny_count;
+        NEW.status := OLD.status;
+        NEW.requires_confirmation := OLD.requires_confirmation;
+        NEW.reporter_count := OLD.reporter_count;
+        NEW.incident_id := OLD.incident_id;
+    END IF;
+    RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+DROP TRIGGER IF EXISTS protect_report_reputation ON public.reports;
+CREATE TRIGGER protect_report_reputation BEFORE INSERT OR UPDATE ON public.reports
+    FOR EACH ROW EXECUTE FUNCTION public.protect_report_reputation();
+
+-- Refresh the score of the user a changed row belongs to
+CREATE OR REPLACE FUNCTION public.refresh_row_user_reputation()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    PERFORM public.refresh_user_reputation(COALESCE(NEW.user_id, OLD.user_id));
+    RETURN NULL;
+END;
+$$;
+
+-- Votes, a report finishing and a report being deleted change its author's score
+DROP TRIGGER IF EXISTS refresh_report_author_reputation ON public.reports;
+CREATE TRIGGER refresh_report_author_reputation
+    AFTER UPDATE OF confirm_count, deny_count, status ON public.reports
+    FOR EACH ROW
+    WHEN (
+        OLD.confirm_count IS DISTINCT FROM NEW.confirm_count
+        OR OLD.deny_count IS DISTINCT FROM NEW.deny_count
+        OR OLD.status IS DISTINCT FROM NEW.status
+    )
+    EXECUTE FUNCTION public.refresh_row_user_reputation();
+
+DROP TRIGGER IF EXISTS refresh_deleted_report_author_reputation ON public.reports;
+CREATE TRIGGER refresh_deleted_report_author_reputation
+    AFTER DELETE ON public.reports
+    FOR EACH ROW EXECUTE FUNCTION public.refresh_row_user_reputation();
+
+DROP TRIGGER IF EXISTS refresh_moderated_user_reputation ON public.moderator_actions;
+CREATE TRIGGER refresh_moderated_user_reputation
+    AFTER INSERT OR UPDATE OR DELETE ON public.moderator_actions
+    FOR EACH ROW EXECUTE FUNCTION public.refresh_row_user_reputation();
+
+-- Hold back reports from low-trust users until someone confirms them.
+-- Runs before match_duplicate_report; merged reports never notify anyway.
+CREATE OR REPLACE FUNCTION public.flag_low_trust_report()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    NEW.requires_confirmation := COALESCE(
+        (SELECT u.reputation_score < public.low_trust_reputation_threshold()
+         FROM public.users u WHERE u.id = NEW.user_id),
+        false
+    );
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS flag_low_trust_report ON public.reports;
+CREATE TRIGGER flag_low_trust_report BEFORE INSERT ON public.reports
+    FOR EACH ROW EXECUTE FUNCTION public.flag_low_trust_report();
+
+-- The first confirmation releases a held-back report
+CREATE OR REPLACE FUNCTION public.release_confirmed_report()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.requires_confirmation := false;
+    RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+DROP TRIGGER IF EXISTS release_confirmed_report ON public.reports;
+CREATE TRIGGER release_confirmed_report
+    BEFORE UPDATE OF confirm_count ON public.reports
+    FOR EACH ROW
+    WHEN (OLD.requires_confirmation AND NEW.confirm_count > 0)
+    EXECUTE FUNCTION public.release_confirmed_report();
+
+-- Held-back reports don't notify when they are created...
+-- (replaces the version from setup_push_notifications.sql)
+CREATE OR REPLACE FUNCTION public.handle_new_report_push()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NEW.requires_confirmation THEN
+        RETURN NEW;
+    END IF;
+
+    PERFORM public.fan_out_report_push(NEW.id);
+    RETURN NEW;
+EXCEPTION WHEN OTHERS THEN
+    -- Never block a report because push delivery failed
+    RAISE WARNING 'Push fan-out failed for report %: %', NEW.id, SQLERRM;
+    RETURN NEW;
+END;
+$$;
+
+-- ...but when they are released
+DROP TRIGGER IF EXISTS on_report_released_push ON public.reports;
+CREATE TRIGGER on_report_released_push
+    AFTER UPDATE OF requires_confirmation ON public.reports
+    FOR EACH ROW
+    WHEN (OLD.requires_confirmation AND NOT NEW.requires_confirmation)
+    EXECUTE FUNCTION public.handle_new_report_push();
+
+-- Reputation bookkeeping must not restart a report's lifetime
+-- (replaces the version from setup_report_comments.sql)
+CREATE OR REPLACE FUNCTION public.update_report_updated_at_column()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF (to_jsonb(NEW) - ARRAY['confirm_count', 'deny_count', 'last_confirmed_at', 'reporter_count', 'location', 'footprint', 'incident_id', 'comment_count', 'requires_confirmation', 'updated_at'])
+        = (to_jsonb(OLD) - ARRAY['confirm_count', 'deny_count', 'last_confirmed_at', 'reporter_count', 'location', 'footprint', 'incident_id', 'comment_count', 'requires_confirmation', 'updated_at']) THEN
+        NEW.updated_at = OLD.updated_at;
+    ELSE
+        NEW.updated_at = NOW();
+    END IF;
+    RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+-- Score users who already have reports
+UPDATE public.users u
+SET reputation_score = rep.reputation_score
+FROM public.users target
+CROSS JOIN LATERAL public.get_user_reputation(target.id) AS rep
+WHERE u.id = target.id AND u.reputation_score <> rep.reputation_score;
@@ -0,0 +1,242 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { View, Text, StyleSheet, StyleProp, ViewStyle, TouchableOpacity } from 'react-native';
+import { IconButton, ActivityIndicator } from 'react-native-paper';
+import Slider from '@react-native-community/slider';
+import { Audio, AVPlaybackStatus, InterruptionModeIOS } from 'expo-av';
+import { MediaCacheService } from '../services/mediaCacheService';
+
+interface AudioPlayerProps {
+  uri: string; // remote file_url of the voice message
+  compact?: boolean;
+  style?: StyleProp<ViewStyle>;
+  isActive?: boolean; // false stops playback, e.g. when the screen showing it loses focus
+}
+
+const PLAYBACK_RATES = [1, 1.5, 2, 0.75];
+
+// Only one voice message plays at a time
+let stopActivePlayer: (() => void) | null = null;
+
+const formatTime = (millis: number): string => {
+  const totalSeconds = Math.floor(millis / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+};
+
+export const AudioPlayer: React.FC<AudioPlayerProps> = ({ uri, compact = false, style, isActive = true }) => {
+  const soundRef = useRef<Audio.Sound | null>(null);
+  const isSeekingRef = useRef(false);
+  const loadTokenRef = useRef(0); // bumped by unload() to discard loads still in flight
+  const [isLoading, setIsLoading] = useState(false);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [position, setPosition] = useState(0);
+  const [duration, setDuration] = useState(0);
+  const [rateIndex, setRateIndex] = useState(0);
+
+  const unload = useCallback(async () => {
+    const sound = soundRef.current;
+    soundRef.current = null;
+    loadTokenRef.current += 1;
+    setIsPlaying(false);
+    if (stopActivePlayer === unload) {
+      stopActivePlayer = null;
+    }
+    if (sound) {
+      try {
+        await sound.unloadAsync();
+      } catch (error) {
+        console.error('Error unloading audio:', error);
+      }
+    }
+  }, []);
+
+  // Stop playback when the screen showing the player loses focus
+  useEffect(() => {
+    if (!isActive) {
+      unload();
+    }
+  }, [isActive, unload]);
+
+  // Stop playback when the player unmounts
+  useEffect(() => {
+    return () => {
+      unload();
+    };
+  }, [uri, unload]);
+
+  const handleStatus = (status: AVPlaybackStatus) => {
+    if (!status.isLoaded) {
+      if (status.error) {
+        console.error('Audio playback error:', status.error);
+      }
+      return;
+    }
+
+    if (!isSeekingRef.current) {
+      setPosition(status.positionMillis);
+    }
+    if (status.durationMillis) {
+      setDuration(status.durationMillis);
+    }
+    setIsPlaying(status.isPlaying);
+
+    if (status.didJustFinish) {
+      soundRef.current?.setPositionAsync(0);
+      setPosition(0);
+    }
+  };
+
+  const load = async (): Promise<Audio.Sound | null> => {
+    const loadToken = loadTokenRef.current;
+    setIsLoading(true);
+    try {
+      await Audio.setAudioModeAsync({
+        allowsRecordingIOS: false,
+        playsInSilentModeIOS: true,
+        interruptionModeIOS: InterruptionModeIOS.DoNotMix,
+      });
+
+      // Play the cached copy when we have one, otherwise stream and cache for next time
+      const cachedUri = await MediaCacheService.getCachedUri(uri);
+      if (!cachedUri) {
+        MediaCacheService.cache(uri);
+      }
+
+      const { sound } = await Audio.Sound.createAsync(
+        { uri: cachedUri || uri },
+        {
+          shouldPlay: false,
+          rate: PLAYBACK_RATES[rateIndex],
+          shouldCorrectPitch: true,
+          progressUpdateIntervalMillis: 250,
+        },
+        handleStatus
+      );
+
+      // The screen lost focus or the player unmounted while the sound was loading
+      if (loadToken !== loadTokenRef.current) {
+        await sound.unloadAsync();
+        return null;
+      }
+
+      soundRef.current = sound;
+      return sound;
+    } catch (error) {
+      console.error('Error loading audio:', error);
+      return null;
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const togglePlayback = async () => {
+    const sound = soundRef.current || (await load());
+    if (!sound) return;
+
+    if (isPlaying) {
+      await sound.pauseAsync();
+      return;
+    }
+
+    if (stopActivePlayer && stopActivePlayer !== unload) {
+      stopActivePlayer();
+    }
+    stopActivePlayer = unload;
+    await sound.playAsync();
+  };
+
+  const handleSeek = async (value: number) => {
+    isSeekingRef.current = false;
+    setPosition(value);
+    await soundRef.current?.setPositionAsync(value);
+  };
+
+  const cycleRate = async () => {
+    const nextIndex = (rateIndex + 1) % PLAYBACK_RATES.length;
+    setRateIndex(nextIndex);
+    await soundRef.current?.setRateAsync(PLAYBACK_RATES[nextIndex], true);
+  };
+
+  return (
+    <View style={[styles.container, compact && styles.containerCompact, style]}>
+      {isLoading ? (
+        <ActivityIndicator size="small" color="#0066FF" style={styles.loading} />
+      ) : (
+        <IconButton
+          icon={isPlaying ? 'pause' : 'play'}
+          size={compact ? 20 : 28}
+          onPress={togglePlayback}
+          style={styles.playButton}
+        />
+      )}
+
+      <View style={styles.progress}>
+        <Slider
+          style={styles.slider}
+          minimumValue={0}
+          maximumValue={duration || 1}
+          value={position}
+          disabled={!duration}
+          minimumTrackTintColor="#0066FF"
+          maximumTrackTintColor="#ccc"
+          thumbTintColor="#0066FF"
+          onSlidingStart={() => {
+            isSeekingRef.current = true;
+          }}
+          onSlidingComplete={handleSeek}
+        />
+        <Text style={styles.time}>
+          {formatTime(position)} / {duration ? formatTime(duration) : '--:--'}
+        </Text>
+      </View>
+
+      <TouchableOpacity onPress={cycleRate} style={styles.rateButton}>
+        <Text style={styles.rateText}>{PLAYBACK_RATES[rateIndex]}x</Text>
+      </TouchableOpacity>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#f0f0f0',
+    borderRadius: 8,
+    paddingRight: 8,
+  },
+  containerCompact: {
+    paddingVertical: 0,
+  },
+  loading: {
+    margin: 14,
+  },
+  playButton: {
+    margin: 4,
+  },
+  progress: {
+    flex: 1,
+  },
+  slider: {
+    width: '100%',
+    height: 28,
+  },
+  time: {
+    fontSize: 11,
+    color: '#666',
+    marginLeft: 12,
+  },
+  rateButton: {
+    marginLeft: 8,
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 12,
+    backgroundColor: '#E0E7FF',
+  },
+  rateText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#0066FF',
+  },
+});
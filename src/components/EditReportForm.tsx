@@ -0,0 +1,249 @@
+import React, { useState } from 'react';
+import { View, StyleSheet, ScrollView, Alert, Image } from 'react-native';
+import { TextInput, Button, Text, Chip, IconButton, ProgressBar } from 'react-native-paper';
+import * as ImagePicker from 'expo-image-picker';
+import { MediaAttachment, Report } from '../types';
+import { SupabaseService } from '../services/supabase';
+import { MediaProcessingService } from '../services/mediaProcessingService';
+import { MEDIA_LIMITS, getOriginalMedia, getThumbnailUrl } from '../utils/media';
+
+interface EditReportFormProps {
+  report: Report;
+  onSaved: (report: Report) => void;
+  onCancel: () => void;
+}
+
+// Lets the author change a report's description, remove attachments and add photos
+export const EditReportForm: React.FC<EditReportFormProps> = ({ report, onSaved, onCancel }) => {
+  const [description, setDescription] = useState(report.description);
+  const [removedIds, setRemovedIds] = useState<string[]>([]);
+  const [newPhotoUris, setNewPhotoUris] = useState<string[]>([]);
+  const [progress, setProgress] = useState<number[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  const existingMedia = getOriginalMedia(report.media_files);
+  const keptPhotoCount = existingMedia.filter(
+    media => media.file_type === 'photo' && !removedIds.includes(media.id)
+  ).length;
+  const photoSlots = MEDIA_LIMITS.photo - keptPhotoCount - newPhotoUris.length;
+  const hasChanges =
+    description.trim() !== report.description || removedIds.length > 0 || newPhotoUris.length > 0;
+
+  const toggleRemoved = (mediaId: string) => {
+    setRemovedIds(prev =>
+      prev.includes(mediaId) ? prev.filter(id => id !== mediaId) : [...prev, mediaId]
+    );
+  };
+
+  const pickPhoto = async () => {
+    try {
+      const { status } = await ImagePicker.requestMediaLibraryPermissionsAsync();
+      if (status !== 'granted') {
+        Alert.alert('Permission needed', 'Photo library permission is required');
+        return;
+      }
+
+      const result = await ImagePicker.launchImageLibraryAsync({
+        mediaTypes: ImagePicker.MediaTypeOptions.Images,
+        allowsMultipleSelection: true,
+        selectionLimit: photoSlots,
+        quality: 1, // compressed and stripped of EXIF before upload
+        exif: false,
+      });
+
+      if (!result.canceled) {
+        setNewPhotoUris(prev => [...prev, ...result.assets.map(asset => asset.uri).slice(0, photoSlots)]);
+      }
+    } catch (error) {
+      console.error('Error picking photo:', error);
+      Alert.alert('Error', 'Failed to pick photo');
+    }
+  };
+
+  const save = async () => {
+    if (!description.trim()) {
+      Alert.alert('Error', 'Please provide a description');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const photos: MediaAttachment[] = await Promise.all(
+        newPhotoUris.map((uri, index) =>
+          MediaProcessingService.processAttachment({
+            file_type: 'photo',
+            uri,
+            file_name: `photo_${index + 1}.jpg`,
+            mime_type: 'image/jpeg',
+          })
+        )
+      );
+      setProgress(photos.map(() => 0));
+
+      const { data, error } = await SupabaseService.editReport(
+        report,
+        {
+          description: description.trim() !== report.description ? description.trim() : undefined,
+          addMedia: photos,
+          removeMediaIds: removedIds,
+        },
+        (index, value) => setProgress(prev => prev.map((p, i) => (i === index ? value : p)))
+      );
+      if (error || !data) {
+        throw new Error(error?.message || 'Failed to save changes');
+      }
+
+      onSaved(data);
+    } catch (error: any) {
+      console.error('Error editing report:', error);
+      Alert.alert('Error', error.message || 'Failed to save changes');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <ScrollView>
+      <Text style={styles.label}>Description</Text>
+      <TextInput
+        mode="outlined"
+        value={description}
+        onChangeText={setDescription}
+        multiline
+        numberOfLines={4}
+        style={styles.input}
+      />
+
+      {existingMedia.length > 0 && (
+        <>
+          <Text style={styles.label}>Attachments</Text>
+          <Text style={styles.hint}>Tap an attachment to remove it</Text>
+          <View style={styles.attachments}>
+            {existingMedia.map(media => {
+              const removed = removedIds.includes(media.id);
+              return media.file_type === 'photo' ? (
+                <View key={media.id} style={styles.preview}>
+                  <Image
+                    source={{ uri: getThumbnailUrl(media, report.media_files) }}
+                    style={[styles.previewImage, removed && styles.removed]}
+                  />
+                  <IconButton
+                    icon={removed ? 'undo' : 'close'}
+                    size={16}
+                    onPress={() => toggleRemoved(media.id)}
+                    style={styles.removeButton}
+                  />
+                </View>
+              ) : (
+                <Chip
+                  key={media.id}
+                  icon={media.file_type === 'video' ? 'video' : 'microphone'}
+                  selected={removed}
+                  onPress={() => toggleRemoved(media.id)}
+                  style={[styles.chip, removed && styles.removed]}
+                >
+                  {media.file_type === 'video' ? 'Video' : 'Voice message'}
+                </Chip>
+              );
+            })}
+          </View>
+        </>
+      )}
+
+      <Button
+        mode="outlined"
+        icon="image-plus"
+        onPress={pickPhoto}
+        disabled={saving || photoSlots <= 0}
+        style={styles.addButton}
+      >
+        Add Photos
+      </Button>
+      {newPhotoUris.length > 0 && (
+        <View style={styles.attachments}>
+          {newPhotoUris.map((uri, index) => (
+            <View key={uri} style={styles.preview}>
+              <Image source={{ uri }} style={styles.previewImage} />
+              {saving && progress[index] !== undefined ? (
+                <ProgressBar progress={progress[index]} color="#0066FF" style={styles.progress} />
+              ) : (
+                <IconButton
+                  icon="close"
+                  size={16}
+                  onPress={() => setNewPhotoUris(prev => prev.filter((_, i) => i !== index))}
+                  style={styles.removeButton}
+                />
+              )}
+            </View>
+          ))}
+        </View>
+      )}
+
+      <View style={styles.actions}>
+        <Button mode="outlined" onPress={onCancel} disabled={saving}>
+          Cancel
+        </Button>
+        <Button mode="contained" onPress={save} loading={saving} disabled={saving || !hasChanges}>
+          Save Changes
+        </Button>
+      </View>
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+    marginTop: 8,
+    marginBottom: 4,
+  },
+  hint: {
+    fontSize: 12,
+    color: '#999',
+    marginBottom: 4,
+  },
+  input: {
+    marginBottom: 8,
+  },
+  attachments: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    alignItems: 'center',
+  },
+  preview: {
+    marginRight: 12,
+    marginTop: 8,
+  },
+  previewImage: {
+    width: 80,
+    height: 60,
+    borderRadius: 8,
+  },
+  removed: {
+    opacity: 0.3,
+  },
+  removeButton: {
+    position: 'absolute',
+    top: -8,
+    right: -8,
+    backgroundColor: 'white',
+  },
+  progress: {
+    marginTop: 4,
+  },
+  chip: {
+    marginRight: 8,
+    marginTop: 8,
+  },
+  addButton: {
+    marginTop: 12,
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 8,
+    marginTop: 16,
+  },
+});
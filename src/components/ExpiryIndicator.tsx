@@ -7,6 +7,7 @@ import { ReportCategory } from '../types';
 interface ExpiryIndicatorProps {
   category: ReportCategory;
   updatedAt: string;
+  lastConfirmedAt?: string | null;
   style?: any;
   compact?: boolean;
 }
@@ -14,6 +15,7 @@ interface ExpiryIndicatorProps {
 export const ExpiryIndicator: React.FC<ExpiryIndicatorProps> = ({
   category,
   updatedAt,
+  lastConfirmedAt,
   style,
   compact = false
 }) => {
@@ -22,8 +24,8 @@ export const ExpiryIndicator: React.FC<ExpiryIndicatorProps> = ({
 
   useEffect(() => {
     const updateTimer = () => {
-      const remaining = ReportExpiryService.getTimeUntilExpiry(category, updatedAt);
-      const expired = ReportExpiryService.isReportExpired(category, updatedAt);
+      const remaining = ReportExpiryService.getTimeUntilExpiry(category, updatedAt, lastConfirmedAt);
+      const expired = ReportExpiryService.isReportExpired(category, updatedAt, lastConfirmedAt);
       
       setTimeRemaining(remaining);
       setIsExpired(expired);
@@ -36,7 +38,7 @@ export const ExpiryIndicator: React.FC<ExpiryIndicatorProps> = ({
     const interval = setInterval(updateTimer, 30000);
 
     return () => clearInterval(interval);
-  }, [category, updatedAt]);
+  }, [category, updatedAt, lastConfirmedAt]);
 
   if (isExpired) {
     return null; // Don't show indicator for expired reports
@@ -0,0 +1,161 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { View, StyleSheet } from 'react-native';
+import MapView, { LatLng, Marker } from 'react-native-maps';
+import { Searchbar, Button, Text, HelperText } from 'react-native-paper';
+import { LocationService } from '../services/locationService';
+
+interface LocationPickerProps {
+  initialLocation: { latitude: number; longitude: number } | null;
+  onConfirm: (location: { latitude: number; longitude: number }, address: string) => void;
+  onCancel: () => void;
+}
+
+const DEFAULT_LOCATION = { latitude: 37.78825, longitude: -122.4324 };
+const PICKER_DELTA = 0.01;
+
+export const LocationPicker: React.FC<LocationPickerProps> = ({
+  initialLocation,
+  onConfirm,
+  onCancel,
+}) => {
+  const [pin, setPin] = useState<LatLng>(initialLocation ?? DEFAULT_LOCATION);
+  const [address, setAddress] = useState('');
+  const [resolving, setResolving] = useState(false);
+  const [query, setQuery] = useState('');
+  const [searching, setSearching] = useState(false);
+  const [searchError, setSearchError] = useState('');
+
+  const mapRef = useRef<MapView>(null);
+  // Ignore reverse-geocode results for pins that have since moved
+  const lookupRef = useRef(0);
+
+  useEffect(() => {
+    resolveAddress(pin);
+  }, []);
+
+  const resolveAddress = async (coordinate: LatLng) => {
+    const lookup = ++lookupRef.current;
+    setResolving(true);
+    const result = await LocationService.reverseGeocode(coordinate.latitude, coordinate.longitude);
+    if (lookup !== lookupRef.current) return;
+
+    setAddress(result ? LocationService.formatAddress(result) : '');
+    setResolving(false);
+  };
+
+  const movePin = (coordinate: LatLng, recenter = false) => {
+    setPin(coordinate);
+    setSearchError('');
+    if (recenter) {
+      mapRef.current?.animateToRegion({
+        ...coordinate,
+        latitudeDelta: PICKER_DELTA,
+        longitudeDelta: PICKER_DELTA,
+      });
+    }
+    resolveAddress(coordinate);
+  };
+
+  const handleSearch = async () => {
+    if (!query.trim()) return;
+
+    setSearching(true);
+    const result = await LocationService.geocode(query.trim());
+    setSearching(false);
+
+    if (!result) {
+      setSearchError('No matching address found');
+      return;
+    }
+    movePin({ latitude: result.latitude, longitude: result.longitude }, true);
+  };
+
+  const useCurrentLocation = async () => {
+    const currentLocation = await LocationService.getCurrentLocation();
+    if (currentLocation) {
+      movePin({ latitude: currentLocation.latitude, longitude: currentLocation.longitude }, true);
+    }
+  };
+
+  return (
+    <View>
+      <Searchbar
+        placeholder="Search for an address"
+        value={query}
+        onChangeText={setQuery}
+        onSubmitEditing={handleSearch}
+        onIconPress={handleSearch}
+        loading={searching}
+        style={styles.searchbar}
+      />
+      {searchError ? <HelperText type="error">{searchError}</HelperText> : null}
+
+      <MapView
+        ref={mapRef}
+        style={styles.map}
+        initialRegion={{ ...pin, latitudeDelta: PICKER_DELTA, longitudeDelta: PICKER_DELTA }}
+        onPress={(event) => movePin(event.nativeEvent.coordinate)}
+        showsUserLocation={true}
+      >
+        <Marker
+          coordinate={pin}
+          draggable
+          onDragEnd={(event) => movePin(event.nativeEvent.coordinate)}
+        />
+      </MapView>
+      <Text style={styles.hint}>Drag the pin or tap the map to adjust</Text>
+
+      <Text style={styles.address}>
+        📍 {resolving ? 'Looking up address...' : address || 'Unknown address'}
+      </Text>
+      <Text style={styles.coordinates}>
+        {pin.latitude.toFixed(6)}, {pin.longitude.toFixed(6)}
+      </Text>
+
+      <Button mode="outlined" icon="crosshairs-gps" onPress={useCurrentLocation} style={styles.button}>
+        Use Current Location
+      </Button>
+      <View style={styles.actions}>
+        <Button mode="text" onPress={onCancel}>
+          Cancel
+        </Button>
+        <Button mode="contained" onPress={() => onConfirm(pin, address)} disabled={resolving}>
+          Confirm Location
+        </Button>
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  searchbar: {
+    marginBottom: 8,
+  },
+  map: {
+    height: 280,
+    borderRadius: 8,
+  },
+  hint: {
+    fontSize: 12,
+    color: '#999',
+    marginTop: 4,
+  },
+  address: {
+    fontSize: 14,
+    color: '#333',
+    marginTop: 12,
+  },
+  coordinates: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 2,
+  },
+  button: {
+    marginTop: 12,
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    marginTop: 12,
+  },
+});
@@ -0,0 +1,189 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { View, StyleSheet } from 'react-native';
+import { Searchbar, Button, Text, HelperText } from 'react-native-paper';
+import { MapContainer, TileLayer, Marker, useMapEvents } from 'react-leaflet';
+import L from 'leaflet';
+import 'leaflet/dist/leaflet.css';
+import { LocationService } from '../services/locationService';
+
+interface LocationPickerProps {
+  initialLocation: { latitude: number; longitude: number } | null;
+  onConfirm: (location: { latitude: number; longitude: number }, address: string) => void;
+  onCancel: () => void;
+}
+
+type Coordinate = { latitude: number; longitude: number };
+
+const DEFAULT_LOCATION = { latitude: 37.78825, longitude: -122.4324 };
+const PICKER_ZOOM = 15;
+
+const pinIcon = L.divIcon({
+  className: '',
+  html: '<div style="font-size:32px;line-height:32px;text-align:center;">📍</div>',
+  iconSize: [32, 32],
+  iconAnchor: [16, 32],
+});
+
+// Moves the pin when the map is clicked
+const MapClickHandler: React.FC<{ onClick: (coordinate: Coordinate) => void }> = ({ onClick }) => {
+  useMapEvents({
+    click: (event) => onClick({ latitude: event.latlng.lat, longitude: event.latlng.lng }),
+  });
+  return null;
+};
+
+export const LocationPicker: React.FC<LocationPickerProps> = ({
+  initialLocation,
+  onConfirm,
+  onCancel,
+}) => {
+  const [pin, setPin] = useState<Coordinate>(initialLocation ?? DEFAULT_LOCATION);
+  const [address, setAddress] = useState('');
+  const [resolving, setResolving] = useState(false);
+  const [query, setQuery] = useState('');
+  const [searching, setSearching] = useState(false);
+  const [searchError, setSearchError] = useState('');
+
+  const mapRef = useRef<L.Map | null>(null);
+  // Ignore reverse-geocode results for pins that have since moved
+  const lookupRef = useRef(0);
+
+  useEffect(() => {
+    resolveAddress(pin);
+  }, []);
+
+  const resolveAddress = async (coordinate: Coordinate) => {
+    const lookup = ++lookupRef.current;
+    setResolving(true);
+    const result = await LocationService.reverseGeocode(coordinate.latitude, coordinate.longitude);
+    if (lookup !== lookupRef.current) return;
+
+    setAddress(result ? LocationService.formatAddress(result) : '');
+    setResolving(false);
+  };
+
+  const movePin = (coordinate: Coordinate, recenter = false) => {
+    setPin(coordinate);
+    setSearchError('');
+    if (recenter) {
+      mapRef.current?.setView([coordinate.latitude, coordinate.longitude], PICKER_ZOOM);
+    }
+    resolveAddress(coordinate);
+  };
+
+  const handleSearch = async () => {
+    if (!query.trim()) return;
+
+    setSearching(true);
+    const result = await LocationService.geocode(query.trim());
+    setSearching(false);
+
+    if (!result) {
+      setSearchError('No matching address found');
+      return;
+    }
+    movePin({ latitude: result.latitude, longitude: result.longitude }, true);
+  };
+
+  const useCurrentLocation = async () => {
+    const currentLocation = await LocationService.getCurrentLocation();
+    if (currentLocation) {
+      movePin({ latitude: currentLocation.latitude, longitude: currentLocation.longitude }, true);
+    }
+  };
+
+  return (
+    <View>
+      <Searchbar
+        placeholder="Search for an address"
+        value={query}
+        onChangeText={setQuery}
+        onSubmitEditing={handleSearch}
+        onIconPress={handleSearch}
+        loading={searching}
+        style={styles.searchbar}
+      />
+      {searchError ? <HelperText type="error">{searchError}</HelperText> : null}
+
+      <View style={styles.map}>
+        <MapContainer
+          ref={mapRef}
+          center={[pin.latitude, pin.longitude]}
+          zoom={PICKER_ZOOM}
+          style={{ height: '100%', width: '100%' }}
+        >
+          <TileLayer
+            attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
+            url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
+          />
+          <MapClickHandler onClick={movePin} />
+          <Marker
+            position={[pin.latitude, pin.longitude]}
+            icon={pinIcon}
+            draggable
+            eventHandlers={{
+              dragend: (event) => {
+                const { lat, lng } = (event.target as L.Marker).getLatLng();
+                movePin({ latitude: lat, longitude: lng });
+              },
+            }}
+          />
+        </MapContainer>
+      </View>
+      <Text style={styles.hint}>Drag the pin or click the map to adjust</Text>
+
+      <Text style={styles.address}>
+        📍 {resolving ? 'Looking up address...' : address || 'Unknown address'}
+      </Text>
+      <Text style={styles.coordinates}>
+        {pin.latitude.toFixed(6)}, {pin.longitude.toFixed(6)}
+      </Text>
+
+      <Button mode="outlined" icon="crosshairs-gps" onPress={useCurrentLocation} style={styles.button}>
+        Use Current Location
+      </Button>
+      <View style={styles.actions}>
+        <Button mode="text" onPress={onCancel}>
+          Cancel
+        </Button>
+        <Button mode="contained" onPress={() => onConfirm(pin, address)} disabled={resolving}>
+          Confirm Location
+        </Button>
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  searchbar: {
+    marginBottom: 8,
+  },
+  map: {
+    height: 280,
+    borderRadius: 8,
+    overflow: 'hidden',
+  },
+  hint: {
+    fontSize: 12,
+    color: '#999',
+    marginTop: 4,
+  },
+  address: {
+    fontSize: 14,
+    color: '#333',
+    marginTop: 12,
+  },
+  coordinates: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 2,
+  },
+  button: {
+    marginTop: 12,
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    marginTop: 12,
+  },
+});
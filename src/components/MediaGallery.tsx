@@ -0,0 +1,160 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Image,
+  TouchableOpacity,
+  ScrollView,
+  FlatList,
+  Modal,
+  useWindowDimensions,
+} from 'react-native';
+import { IconButton } from 'react-native-paper';
+import { ResizeMode, Video } from 'expo-av';
+import { MediaFile } from '../types';
+
+interface MediaGalleryProps {
+  media: MediaFile[]; // photos and videos
+}
+
+export const MediaGallery: React.FC<MediaGalleryProps> = ({ media }) => {
+  const { width, height } = useWindowDimensions();
+  const [viewerIndex, setViewerIndex] = useState<number | null>(null);
+  const [currentIndex, setCurrentIndex] = useState(0);
+
+  if (media.length === 0) {
+    return null;
+  }
+
+  const openViewer = (index: number) => {
+    setCurrentIndex(index);
+    setViewerIndex(index);
+  };
+
+  const closeViewer = () => {
+    setViewerIndex(null);
+  };
+
+  return (
+    <View>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+        {media.map((item, index) => (
+          <TouchableOpacity
+            key={item.id}
+            onPress={() => openViewer(index)}
+            style={styles.thumbnail}
+          >
+            {item.file_type === 'photo' ? (
+              <Image source={{ uri: item.file_url }} style={styles.thumbnailImage} resizeMode="cover" />
+            ) : (
+              <View style={[styles.thumbnailImage, styles.videoThumbnail]}>
+                <Text style={styles.videoIcon}>▶</Text>
+                <Text style={styles.videoLabel}>Video</Text>
+              </View>
+            )}
+          </TouchableOpacity>
+        ))}
+      </ScrollView>
+
+      <Modal
+        visible={viewerIndex !== null}
+        onRequestClose={closeViewer}
+        animationType="fade"
+        transparent={false}
+      >
+        <View style={styles.viewer}>
+          <FlatList
+            data={media}
+            keyExtractor={(item) => item.id}
+            horizontal
+            pagingEnabled
+            showsHorizontalScrollIndicator={false}
+            initialScrollIndex={viewerIndex ?? 0}
+            getItemLayout={(_, index) => ({ length: width, offset: width * index, index })}
+            onMomentumScrollEnd={(event) => {
+              setCurrentIndex(Math.round(event.nativeEvent.contentOffset.x / width));
+            }}
+            renderItem={({ item, index }) => (
+              <View style={[styles.page, { width, height }]}>
+                {item.file_type === 'photo' ? (
+                  <Image source={{ uri: item.file_url }} style={styles.fullImage} resizeMode="contain" />
+                ) : (
+                  <Video
+                    source={{ uri: item.file_url }}
+                    style={styles.fullImage}
+                    resizeMode={ResizeMode.CONTAIN}
+                    useNativeControls
+                    // Only the visible clip plays
+                    shouldPlay={index === currentIndex}
+                  />
+                )}
+              </View>
+            )}
+          />
+
+          <View style={styles.viewerHeader}>
+            <Text style={styles.counter}>
+              {currentIndex + 1} / {media.length}
+            </Text>
+            <IconButton icon="close" iconColor="white" size={28} onPress={closeViewer} />
+          </View>
+        </View>
+      </Modal>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  thumbnail: {
+    marginRight: 8,
+    borderRadius: 8,
+    overflow: 'hidden',
+  },
+  thumbnailImage: {
+    width: 120,
+    height: 90,
+    borderRadius: 8,
+  },
+  videoThumbnail: {
+    backgroundColor: '#222',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  videoIcon: {
+    fontSize: 28,
+    color: 'white',
+  },
+  videoLabel: {
+    fontSize: 11,
+    color: '#ddd',
+    marginTop: 2,
+  },
+  viewer: {
+    flex: 1,
+    backgroundColor: 'black',
+  },
+  page: {
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  fullImage: {
+    width: '100%',
+    height: '100%',
+  },
+  viewerHeader: {
+    position: 'absolute',
+    top: 40,
+    left: 0,
+    right: 0,
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingLeft: 20,
+  },
+  counter: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
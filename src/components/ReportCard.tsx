@@ -1,70 +1,24 @@
 import React from 'react';
 import { View, Text, StyleSheet, TouchableOpacity, Image } from 'react-native';
 import { Card, Chip, Avatar } from 'react-native-paper';
-import { Report, ReportCategory } from '../types';
+import { Report } from '../types';
 import { LocationService } from '../services/locationService';
+import { getCategoryColor, getCategoryIcon, getCategoryLabel } from '../utils/categories';
 import { ExpiryIndicator } from './ExpiryIndicator';
+import { ReportVoteButtons } from './ReportVoteButtons';
+import { AudioPlayer } from './AudioPlayer';
+import { countMediaByType, getOriginalMedia, getThumbnailUrl } from '../utils/media';
+import { getReportDetailEntries } from '../utils/reportDetails';
+import { getDistanceToReport } from '../utils/geometry';
+import { isTrustedReporter } from '../utils/reputation';
 
 interface ReportCardProps {
   report: Report;
   onPress: (report: Report) => void;
   userLocation?: { latitude: number; longitude: number };
+  isActive?: boolean; // false stops voice message playback
 }
 
-const getCategoryColor = (category: ReportCategory): string => {
-  switch (category) {
-    case 'police_checkpoint':
-      return '#FF0000';
-    case 'accident':
-      return '#FF6600';
-    case 'road_hazard':
-      return '#FFCC00';
-    case 'traffic_jam':
-      return '#0066FF';
-    case 'weather_alert':
-      return '#00CCFF';
-    case 'general':
-    default:
-      return '#666666';
-  }
-};
-
-const getCategoryLabel = (category: ReportCategory): string => {
-  switch (category) {
-    case 'police_checkpoint':
-      return 'Police Checkpoint';
-    case 'accident':
-      return 'Accident';
-    case 'road_hazard':
-      return 'Road Hazard';
-    case 'traffic_jam':
-      return 'Traffic Jam';
-    case 'weather_alert':
-      return 'Weather Alert';
-    case 'general':
-    default:
-      return 'General';
-  }
-};
-
-const getCategoryIcon = (category: ReportCategory): string => {
-  switch (category) {
-    case 'police_checkpoint':
-      return '🚔';
-    case 'accident':
-      return '🚨';
-    case 'road_hazard':
-      return '⚠️';
-    case 'traffic_jam':
-      return '🚗';
-    case 'weather_alert':
-      return '🌧️';
-    case 'general':
-    default:
-      return '📍';
-  }
-};
-
 const formatTimestamp = (report_timestamp: string): string => {
   const date = new Date(report_timestamp);
   const now = new Date();
@@ -79,7 +33,8 @@ const formatTimestamp = (report_timestamp: string): string => {
 export const ReportCard: React.FC<ReportCardProps> = ({ 
   report, 
   onPress, 
-  userLocation 
+  userLocation,
+  isActive = true
 }) => {
 
 
@@ -87,18 +42,15 @@ export const ReportCard: React.FC<ReportCardProps> = ({
   const categoryLabel = getCategoryLabel(report.category);
   const categoryIcon = getCategoryIcon(report.category);
 
-  const distance = userLocation 
-    ? LocationService.calculateDistance(
-        userLocation.latitude,
-        userLocation.longitude,
-        report.latitude,
-        report.longitude
-      )
-    : null;
+  const distance = userLocation ? getDistanceToReport(userLocation, report) : null;
 
-  const hasMedia = report.media_files && report.media_files.length > 0;
-  const photoMedia = report.media_files?.find(m => m.file_type === 'photo');
-  const audioMedia = report.media_files?.find(m => m.file_type === 'audio');
+  const originalMedia = getOriginalMedia(report.media_files);
+  const hasMedia = originalMedia.length > 0;
+  const photoMedia = originalMedia.find(m => m.file_type === 'photo');
+  const photoCount = countMediaByType(report.media_files, 'photo');
+  const videoCount = countMediaByType(report.media_files, 'video');
+  const audioMedia = originalMedia.find(m => m.file_type === 'audio');
+  const detailEntries = getReportDetailEntries(report);
 
   return (
     <TouchableOpacity onPress={() => onPress(report)}>
@@ -113,10 +65,18 @@ export const ReportCard: React.FC<ReportCardProps> = ({
               <View style={styles.userDetails}>
                 <Text style={styles.username}>
                   {report.user?.username || 'Anonymous'}
+                  {isTrustedReporter(report.user) && (
+                    <Text style={styles.trustedBadge}> ✔ Trusted</Text>
+                  )}
                 </Text>
                 <Text style={styles.timestamp}>
                   {formatTimestamp(report.report_timestamp)}
                 </Text>
+                {(report.reporter_count ?? 1) > 1 && (
+                  <Text style={styles.reporters}>
+                    👥 Reported by {report.reporter_count} people
+                  </Text>
+                )}
               </View>
             </View>
             <Chip 
@@ -130,26 +90,49 @@ export const ReportCard: React.FC<ReportCardProps> = ({
 
           <Text style={styles.description}>{report.description}</Text>
 
+          {detailEntries.length > 0 && (
+            <View style={styles.detailsContainer}>
+              {detailEntries.map(entry => (
+                <Text key={entry.key} style={styles.detailText}>
+                  {entry.label}: <Text style={styles.detailValue}>{entry.value}</Text>
+                </Text>
+              ))}
+            </View>
+          )}
+
+          <ReportVoteButtons
+            report={report}
+            compact={true}
+            style={styles.voteButtons}
+          />
+
           {hasMedia && (
             <View style={styles.mediaContainer}>
               {photoMedia && (
                 <View style={styles.mediaItem}>
                   <Image 
-                    source={{ uri: photoMedia.file_url }} 
+                    source={{ uri: getThumbnailUrl(photoMedia, report.media_files) }} 
                     style={styles.mediaImage}
                     resizeMode="cover"
                   />
-                  <Text style={styles.mediaLabel}>📷 Photo</Text>
+                  <Text style={styles.mediaLabel}>
+                    📷 {photoCount > 1 ? `${photoCount} Photos` : 'Photo'}
+                  </Text>
                 </View>
               )}
-              {audioMedia && (
+              {videoCount > 0 && (
                 <View style={styles.mediaItem}>
                   <View style={styles.audioIndicator}>
-                    <Text style={styles.audioIcon}>🎤</Text>
+                    <Text style={styles.audioIcon}>🎬</Text>
                   </View>
-                  <Text style={styles.mediaLabel}>🎵 Voice Message</Text>
+                  <Text style={styles.mediaLabel}>
+                    🎬 {videoCount > 1 ? `${videoCount} Videos` : 'Video'}
+                  </Text>
                 </View>
               )}
+              {audioMedia && (
+                <AudioPlayer uri={audioMedia.file_url} compact isActive={isActive} style={styles.audioPlayer} />
+              )}
             </View>
           )}
 
@@ -160,6 +143,11 @@ export const ReportCard: React.FC<ReportCardProps> = ({
                   📍 {LocationService.formatDistance(distance)} away
                 </Text>
               )}
+              {(report.comment_count ?? 0) > 0 && (
+                <Text style={styles.comments}>
+                  💬 {report.comment_count}
+                </Text>
+              )}
               <View style={[styles.statusIndicator, { backgroundColor: categoryColor }]}>
                 <Text style={styles.statusText}>
                   {report.status.charAt(0).toUpperCase() + report.status.slice(1)}
@@ -169,6 +157,7 @@ export const ReportCard: React.FC<ReportCardProps> = ({
             <ExpiryIndicator
               category={report.category}
               updatedAt={report.updated_at}
+              lastConfirmedAt={report.last_confirmed_at}
               compact={true}
               style={styles.expiryIndicator}
             />
@@ -215,11 +204,21 @@ const styles = StyleSheet.create({
     color: '#333',
     flexShrink: 1, // Allow text to shrink
   },
+  trustedBadge: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#2E7D32',
+  },
   timestamp: {
     fontSize: 12,
     color: '#666',
     marginTop: 2,
   },
+  reporters: {
+    fontSize: 12,
+    color: '#0066FF',
+    marginTop: 2,
+  },
   categoryChip: {
     marginLeft: 8,
     alignSelf: 'flex-start',
@@ -230,6 +229,25 @@ const styles = StyleSheet.create({
     lineHeight: 20,
     marginBottom: 12,
   },
+  detailsContainer: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginTop: -4,
+    marginBottom: 12,
+  },
+  detailText: {
+    fontSize: 12,
+    color: '#666',
+    marginRight: 12,
+  },
+  detailValue: {
+    fontWeight: '600',
+    color: '#333',
+  },
+  voteButtons: {
+    marginTop: -4,
+    marginBottom: 8,
+  },
   mediaContainer: {
     flexDirection: 'row',
     marginBottom: 12,
@@ -263,6 +281,10 @@ const styles = StyleSheet.create({
   audioIcon: {
     fontSize: 24,
   },
+  audioPlayer: {
+    width: '100%',
+    marginBottom: 8,
+  },
   footer: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -279,6 +301,11 @@ const styles = StyleSheet.create({
     color: '#666',
     marginRight: 8,
   },
+  comments: {
+    fontSize: 12,
+    color: '#666',
+    marginRight: 8,
+  },
   statusIndicator: {
     paddingHorizontal: 8,
     paddingVertical: 4,
@@ -0,0 +1,117 @@
+import React from 'react';
+import { Platform, View, Text, StyleSheet } from 'react-native';
+import { ReportCluster } from '../utils/clustering';
+import { getCategoryColor, getCategoryIcon } from '../utils/categories';
+
+// Conditional import to avoid web issues
+let Marker: any = null;
+if (Platform.OS !== 'web') {
+  try {
+    const maps = require('react-native-maps');
+    Marker = maps.Marker;
+  } catch (error) {
+    console.warn('react-native-maps not available');
+  }
+}
+
+// Categories listed under the bubble; the rest are summed up as "+n"
+const MAX_BREAKDOWN_CATEGORIES = 3;
+
+interface ReportClusterMarkerProps {
+  cluster: ReportCluster;
+  onPress: (cluster: ReportCluster) => void;
+}
+
+export const ReportClusterMarker: React.FC<ReportClusterMarkerProps> = ({ cluster, onPress }) => {
+  if (Platform.OS === 'web' || !Marker) {
+    return null;
+  }
+
+  const count = cluster.reports.length;
+  // The bubble takes the color of the most common category
+  const color = getCategoryColor(cluster.categoryCounts[0].category);
+  const shown = cluster.categoryCounts.slice(0, MAX_BREAKDOWN_CATEGORIES);
+  const hiddenCount = cluster.categoryCounts
+    .slice(MAX_BREAKDOWN_CATEGORIES)
+    .reduce((sum, entry) => sum + entry.count, 0);
+
+  return (
+    <Marker
+      coordinate={{
+        latitude: cluster.latitude,
+        longitude: cluster.longitude,
+      }}
+      onPress={() => onPress(cluster)}
+    >
+      <View style={styles.container}>
+        <View
+          style={[
+            styles.bubble,
+            { backgroundColor: color },
+            count >= 100 ? styles.bubbleLarge : count >= 10 ? styles.bubbleMedium : null,
+          ]}
+        >
+          <Text style={styles.count}>{count}</Text>
+        </View>
+        <View style={styles.breakdown}>
+          {shown.map(({ category, count: categoryCount }) => (
+            <Text key={category} style={styles.breakdownItem}>
+              {getCategoryIcon(category)}{categoryCount}
+            </Text>
+          ))}
+          {hiddenCount > 0 && (
+            <Text style={styles.breakdownItem}>+{hiddenCount}</Text>
+          )}
+        </View>
+      </View>
+    </Marker>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    alignItems: 'center',
+  },
+  bubble: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    justifyContent: 'center',
+    alignItems: 'center',
+    borderWidth: 2,
+    borderColor: '#FFFFFF',
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.4,
+    shadowRadius: 2,
+    elevation: 3,
+  },
+  bubbleMedium: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+  },
+  bubbleLarge: {
+    width: 52,
+    height: 52,
+    borderRadius: 26,
+  },
+  count: {
+    color: '#FFFFFF',
+    fontWeight: 'bold',
+    fontSize: 14,
+  },
+  breakdown: {
+    flexDirection: 'row',
+    marginTop: 2,
+    paddingHorizontal: 4,
+    paddingVertical: 1,
+    borderRadius: 8,
+    backgroundColor: 'rgba(255, 255, 255, 0.9)',
+  },
+  breakdownItem: {
+    fontSize: 10,
+    color: '#333',
+    marginHorizontal: 2,
+  },
+});
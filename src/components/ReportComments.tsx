@@ -0,0 +1,229 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, Alert } from 'react-native';
+import { Avatar, Button, IconButton, TextInput } from 'react-native-paper';
+import { ReportComment } from '../types';
+import { SupabaseService } from '../services/supabase';
+import { useAuth } from '../contexts/AuthContext';
+
+const MAX_COMMENT_LENGTH = 500; // matches the check on report_comments.body
+
+interface ReportCommentsProps {
+  reportId: string;
+  canComment: boolean; // false once the report has left the road
+}
+
+// Comment thread under a report, kept live through a realtime subscription
+export const ReportComments: React.FC<ReportCommentsProps> = ({ reportId, canComment }) => {
+  const { appUser } = useAuth();
+  const [comments, setComments] = useState<ReportComment[]>([]);
+  const [draft, setDraft] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [sending, setSending] = useState(false);
+
+  const upsertComment = (comment: ReportComment) => {
+    setComments(prev =>
+      prev.some(existing => existing.id === comment.id)
+        ? prev.map(existing => (existing.id === comment.id ? { ...existing, ...comment } : existing))
+        : [...prev, comment]
+    );
+  };
+
+  useEffect(() => {
+    SupabaseService.getReportComments(reportId).then(({ data }) => {
+      if (data) {
+        setComments(data);
+      }
+    });
+
+    const channel = SupabaseService.subscribeToReportComments(reportId, async payload => {
+      if (payload.eventType === 'DELETE') {
+        setComments(prev => prev.filter(comment => comment.id !== payload.old?.id));
+      } else if (payload.eventType === 'INSERT') {
+        // The payload has no author, so fetch the comment with it
+        const { data } = await SupabaseService.getCommentById(payload.new.id);
+        if (data) {
+          upsertComment(data);
+        }
+      } else if (payload.eventType === 'UPDATE') {
+        setComments(prev =>
+          prev.map(comment =>
+            comment.id === payload.new.id
+              ? { ...comment, body: payload.new.body, updated_at: payload.new.updated_at }
+              : comment
+          )
+        );
+      }
+    });
+
+    return () => {
+      channel.unsubscribe();
+    };
+  }, [reportId]);
+
+  const formatTimestamp = (timestamp: string) => new Date(timestamp).toLocaleString();
+
+  const cancelEditing = () => {
+    setEditingId(null);
+    setDraft('');
+  };
+
+  const submit = async () => {
+    if (!appUser || !draft.trim()) return;
+
+    setSending(true);
+    const { data, error } = editingId
+      ? await SupabaseService.updateReportComment(editingId, draft)
+      : await SupabaseService.addReportComment(reportId, appUser.id, draft);
+    setSending(false);
+
+    if (error || !data) {
+      Alert.alert('Error', error?.message || 'Failed to save comment');
+      return;
+    }
+
+    upsertComment(data);
+    cancelEditing();
+  };
+
+  const deleteComment = (comment: ReportComment) => {
+    Alert.alert('Delete Comment', 'Remove this comment?', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          const { error } = await SupabaseService.deleteReportComment(comment.id);
+          if (error) {
+            Alert.alert('Error', error.message || 'Failed to delete comment');
+            return;
+          }
+          setComments(prev => prev.filter(existing => existing.id !== comment.id));
+          if (editingId === comment.id) {
+            cancelEditing();
+          }
+        },
+      },
+    ]);
+  };
+
+  return (
+    <View>
+      {comments.length === 0 && (
+        <Text style={styles.empty}>No comments yet.</Text>
+      )}
+
+      {comments.map(comment => {
+        const isOwn = appUser?.id === comment.user_id;
+        return (
+          <View key={comment.id} style={styles.comment}>
+            <Avatar.Text
+              size={28}
+              label={comment.user?.username?.charAt(0) || 'U'}
+              style={styles.avatar}
+            />
+            <View style={styles.commentContent}>
+              <Text style={styles.author}>{comment.user?.username || 'Anonymous'}</Text>
+              <Text style={styles.body}>{comment.body}</Text>
+              <Text style={styles.timestamp}>
+                {formatTimestamp(comment.created_at)}
+                {comment.updated_at !== comment.created_at ? ' · edited' : ''}
+              </Text>
+            </View>
+            {isOwn && (
+              <View style={styles.commentActions}>
+                <IconButton
+                  icon="pencil-outline"
+                  size={16}
+                  onPress={() => {
+                    setEditingId(comment.id);
+                    setDraft(comment.body);
+                  }}
+                />
+                <IconButton icon="delete-outline" size={16} onPress={() => deleteComment(comment)} />
+              </View>
+            )}
+          </View>
+        );
+      })}
+
+      {appUser && canComment && (
+        <View style={styles.composer}>
+          <TextInput
+            mode="outlined"
+            placeholder={editingId ? 'Edit your comment...' : 'Add a comment, e.g. "left lane now open"'}
+            value={draft}
+            onChangeText={setDraft}
+            maxLength={MAX_COMMENT_LENGTH}
+            multiline
+            dense
+            style={styles.input}
+          />
+          <View style={styles.composerActions}>
+            {editingId && (
+              <Button mode="text" onPress={cancelEditing} disabled={sending}>
+                Cancel
+              </Button>
+            )}
+            <Button
+              mode="contained"
+              icon={editingId ? 'check' : 'send'}
+              onPress={submit}
+              loading={sending}
+              disabled={sending || !draft.trim()}
+            >
+              {editingId ? 'Save' : 'Comment'}
+            </Button>
+          </View>
+        </View>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  empty: {
+    fontSize: 14,
+    color: '#999',
+    marginBottom: 8,
+  },
+  comment: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    marginBottom: 12,
+  },
+  avatar: {
+    marginRight: 8,
+  },
+  commentContent: {
+    flex: 1,
+  },
+  author: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#333',
+  },
+  body: {
+    fontSize: 14,
+    color: '#333',
+    marginTop: 2,
+  },
+  timestamp: {
+    fontSize: 12,
+    color: '#999',
+    marginTop: 2,
+  },
+  commentActions: {
+    flexDirection: 'row',
+  },
+  composer: {
+    marginTop: 4,
+  },
+  input: {
+    marginBottom: 8,
+  },
+  composerActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 8,
+  },
+});
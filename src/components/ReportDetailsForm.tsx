@@ -0,0 +1,125 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { Chip, IconButton } from 'react-native-paper';
+import { ReportCategory, ReportDetails } from '../types';
+import { ReportFieldDefinition, getCategoryColor } from '../utils/categories';
+import { getReportFields } from '../utils/reportDetails';
+
+interface ReportDetailsFormProps {
+  category: ReportCategory;
+  details: ReportDetails;
+  onChange: (details: ReportDetails) => void;
+}
+
+// Inputs for the selected category's structured fields; every field is optional
+export const ReportDetailsForm: React.FC<ReportDetailsFormProps> = ({ category, details, onChange }) => {
+  const fields = getReportFields(category);
+  const color = getCategoryColor(category);
+
+  const setValue = (key: string, value: string | number | undefined) => {
+    const next = { ...details };
+    if (value === undefined) {
+      delete next[key];
+    } else {
+      next[key] = value;
+    }
+    onChange(next);
+  };
+
+  const renderField = (field: ReportFieldDefinition) => {
+    const value = details[field.key];
+
+    if (field.type === 'select') {
+      return (
+        <View style={styles.options}>
+          {field.options.map(option => {
+            const selected = value === option.value;
+            return (
+              <Chip
+                key={option.value}
+                mode={selected ? 'flat' : 'outlined'}
+                selected={selected}
+                // Tapping the selected option clears the field
+                onPress={() => setValue(field.key, selected ? undefined : option.value)}
+                style={[styles.chip, selected && { backgroundColor: color }]}
+                textStyle={selected ? styles.selectedChipText : undefined}
+              >
+                {option.label}
+              </Chip>
+            );
+          })}
+        </View>
+      );
+    }
+
+    const current = typeof value === 'number' ? value : null;
+    return (
+      <View style={styles.stepper}>
+        <IconButton
+          icon="minus"
+          size={20}
+          mode="outlined"
+          disabled={current === null}
+          onPress={() => setValue(field.key, current === null || current <= field.min ? undefined : current - 1)}
+        />
+        <Text style={styles.stepperValue}>{current ?? '—'}</Text>
+        <IconButton
+          icon="plus"
+          size={20}
+          mode="outlined"
+          disabled={current !== null && current >= field.max}
+          onPress={() => setValue(field.key, current === null ? field.min : current + 1)}
+        />
+      </View>
+    );
+  };
+
+  if (fields.length === 0) {
+    return null;
+  }
+
+  return (
+    <View>
+      {fields.map(field => (
+        <View key={field.key} style={styles.field}>
+          <Text style={styles.label}>{field.label}</Text>
+          {renderField(field)}
+        </View>
+      ))}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  field: {
+    marginBottom: 12,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#333',
+    marginBottom: 6,
+  },
+  options: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  chip: {
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  selectedChipText: {
+    color: 'white',
+  },
+  stepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  stepperValue: {
+    minWidth: 32,
+    textAlign: 'center',
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+  },
+});
@@ -1,6 +1,8 @@
 import React from 'react';
 import { Platform, View, Text, StyleSheet } from 'react-native';
-import { Report, ReportCategory } from '../types';
+import { MaterialCommunityIcons } from '@expo/vector-icons';
+import { Report } from '../types';
+import { getCategoryColor, getCategoryIcon } from '../utils/categories';
 
 // Conditional import to avoid web issues
 let Marker: any = null;
@@ -18,44 +20,6 @@ interface ReportMarkerProps {
   onPress: (report: Report) => void;
 }
 
-const getCategoryIcon = (category: ReportCategory): string => {
-  switch (category) {
-    case 'police_checkpoint':
-      return '🚔';
-    case 'accident':
-      return '🚨';
-    case 'road_hazard':
-      return '⚠️';
-    case 'traffic_jam':
-      return '🚦';
-    case 'weather_alert':
-      return '🌧️';
-    case 'general':
-      return '📍';
-    default:
-      return '📍';
-  }
-};
-
-const getCategoryColor = (category: ReportCategory): { primary: string; secondary: string; border: string } => {
-  switch (category) {
-    case 'police_checkpoint':
-      return { primary: '#1E40AF', secondary: '#3B82F6', border: '#1D4ED8' }; // Blue
-    case 'accident':
-      return { primary: '#DC2626', secondary: '#EF4444', border: '#B91C1C' }; // Red
-    case 'road_hazard':
-      return { primary: '#D97706', secondary: '#F59E0B', border: '#B45309' }; // Orange
-    case 'traffic_jam':
-      return { primary: '#7C2D12', secondary: '#EA580C', border: '#9A3412' }; // Orange-Red
-    case 'weather_alert':
-      return { primary: '#0F766E', secondary: '#14B8A6', border: '#0D9488' }; // Teal
-    case 'general':
-      return { primary: '#374151', secondary: '#6B7280', border: '#4B5563' }; // Gray
-    default:
-      return { primary: '#374151', secondary: '#6B7280', border: '#4B5563' }; // Gray
-  }
-};
-
 export const ReportMarker: React.FC<ReportMarkerProps> = ({ report, onPress }) => {
   // Don't render markers on web to avoid compatibility issues
   if (Platform.OS === 'web' || !Marker) {
@@ -74,15 +38,35 @@ export const ReportMarker: React.FC<ReportMarkerProps> = ({ report, onPress }) =
       description={report.description}
       onPress={() => onPress(report)}
     >
-      {/* Clean marker design - just the symbol with text shadow for visibility */}
-      <Text style={styles.markerIcon}>
-        {icon}
-      </Text>
+      <View style={styles.container}>
+        {/* Arrow around the symbol pointing in the report's direction of travel */}
+        {report.heading != null && (
+          <View style={[styles.arrowRing, { transform: [{ rotate: `${report.heading}deg` }] }]}>
+            <MaterialCommunityIcons name="navigation" size={14} color={getCategoryColor(report.category)} />
+          </View>
+        )}
+        {/* Clean marker design - just the symbol with text shadow for visibility */}
+        <Text style={styles.markerIcon}>
+          {icon}
+        </Text>
+      </View>
     </Marker>
   );
 };
 
+const MARKER_SIZE = 56;
+
 const styles = StyleSheet.create({
+  container: {
+    width: MARKER_SIZE,
+    height: MARKER_SIZE,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  arrowRing: {
+    ...StyleSheet.absoluteFillObject,
+    alignItems: 'center',
+  },
   markerIcon: {
     fontSize: 32, // Large size for good visibility
     fontWeight: 'bold',
@@ -0,0 +1,57 @@
+import React from 'react';
+import { Platform } from 'react-native';
+import { Report } from '../types';
+import { getCategoryColor } from '../utils/categories';
+import { getGeometryPoints } from '../utils/geometry';
+
+// Conditional import to avoid web issues
+let Polyline: any = null;
+let Polygon: any = null;
+if (Platform.OS !== 'web') {
+  try {
+    const maps = require('react-native-maps');
+    Polyline = maps.Polyline;
+    Polygon = maps.Polygon;
+  } catch (error) {
+    console.warn('react-native-maps not available');
+  }
+}
+
+interface ReportShapeProps {
+  report: Report;
+  onPress: (report: Report) => void;
+}
+
+// Line or area covered by a report, drawn under its marker in the category color
+export const ReportShape: React.FC<ReportShapeProps> = ({ report, onPress }) => {
+  if (Platform.OS === 'web' || !Polyline || !Polygon || !report.geometry) {
+    return null;
+  }
+
+  const color = getCategoryColor(report.category);
+  const coordinates = getGeometryPoints(report.geometry);
+
+  if (report.geometry.type === 'LineString') {
+    return (
+      <Polyline
+        coordinates={coordinates}
+        strokeColor={color}
+        strokeWidth={6}
+        lineCap="round"
+        tappable
+        onPress={() => onPress(report)}
+      />
+    );
+  }
+
+  return (
+    <Polygon
+      coordinates={coordinates}
+      strokeColor={color}
+      strokeWidth={2}
+      fillColor={`${color}40`}
+      tappable
+      onPress={() => onPress(report)}
+    />
+  );
+};
@@ -0,0 +1,133 @@
+import React, { useState, useEffect } from 'react';
+import { View, Text, StyleSheet, Alert } from 'react-native';
+import { Button } from 'react-native-paper';
+import { Report, VoteType } from '../types';
+import { SupabaseService } from '../services/supabase';
+import { useAuth } from '../contexts/AuthContext';
+
+interface ReportVoteButtonsProps {
+  report: Report;
+  onVoted?: (report: Report) => void;
+  style?: any;
+  compact?: boolean;
+}
+
+export const ReportVoteButtons: React.FC<ReportVoteButtonsProps> = ({
+  report,
+  onVoted,
+  style,
+  compact = false
+}) => {
+  const { user } = useAuth();
+  const [confirmCount, setConfirmCount] = useState(report.confirm_count || 0);
+  const [denyCount, setDenyCount] = useState(report.deny_count || 0);
+  const [myVote, setMyVote] = useState<VoteType | null>(null);
+  const [voting, setVoting] = useState<VoteType | null>(null);
+
+  useEffect(() => {
+    setConfirmCount(report.confirm_count || 0);
+    setDenyCount(report.deny_count || 0);
+  }, [report.confirm_count, report.deny_count]);
+
+  useEffect(() => {
+    if (!user || compact) return;
+
+    // Show the user's previous vote on the detail view
+    SupabaseService.getUserVote(report.id, user.id).then(({ data }) => {
+      setMyVote(data?.vote_type ?? null);
+    });
+  }, [report.id, user?.id, compact]);
+
+  const isOwnReport = user?.id === report.user_id;
+  const canVote = !!user && !isOwnReport && report.status === 'active';
+
+  const castVote = async (voteType: VoteType) => {
+    setVoting(voteType);
+    try {
+      const { data, error } = voteType === 'confirm'
+        ? await SupabaseService.confirmReport(report.id)
+        : await SupabaseService.denyReport(report.id);
+
+      if (error) {
+        console.error('Error voting on report:', error);
+        Alert.alert('Error', error.message || 'Failed to record your vote');
+        return;
+      }
+
+      setMyVote(voteType);
+      if (data) {
+        setConfirmCount(data.confirm_count || 0);
+        setDenyCount(data.deny_count || 0);
+        onVoted?.({ ...report, ...data });
+      }
+    } catch (error) {
+      console.error('Error voting on report:', error);
+      Alert.alert('Error', 'Failed to record your vote');
+    } finally {
+      setVoting(null);
+    }
+  };
+
+  if (!canVote) {
+    if (compact || (confirmCount === 0 && denyCount === 0)) {
+      return null;
+    }
+
+    return (
+      <View style={[styles.container, style]}>
+        <Text style={styles.summaryText}>
+          👍 {confirmCount} still there · 👎 {denyCount} gone
+        </Text>
+      </View>
+    );
+  }
+
+  return (
+    <View style={[styles.container, style]}>
+      <Button
+        mode={myVote === 'confirm' ? 'contained' : 'outlined'}
+        icon="thumb-up"
+        compact={compact}
+        onPress={() => castVote('confirm')}
+        loading={voting === 'confirm'}
+        disabled={voting !== null}
+        style={styles.button}
+        labelStyle={compact ? styles.compactLabel : undefined}
+      >
+        {compact ? `${confirmCount}` : `Still there (${confirmCount})`}
+      </Button>
+      <Button
+        mode={myVote === 'deny' ? 'contained' : 'outlined'}
+        icon="thumb-down"
+        compact={compact}
+        onPress={() => castVote('deny')}
+        loading={voting === 'deny'}
+        disabled={voting !== null}
+        style={styles.button}
+        labelStyle={compact ? styles.compactLabel : undefined}
+      >
+        {compact ? `${denyCount}` : `Gone (${denyCount})`}
+      </Button>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    flexWrap: 'wrap',
+  },
+  button: {
+    marginRight: 8,
+    marginVertical: 4,
+  },
+  compactLabel: {
+    fontSize: 12,
+    marginHorizontal: 8,
+  },
+  summaryText: {
+    fontSize: 14,
+    color: '#666',
+  },
+});
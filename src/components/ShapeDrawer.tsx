@@ -0,0 +1,141 @@
+import React, { useState } from 'react';
+import { View, StyleSheet } from 'react-native';
+import MapView, { LatLng, Marker, Polygon, Polyline } from 'react-native-maps';
+import { Button, Text } from 'react-native-paper';
+import { ReportGeometry } from '../types';
+import {
+  MAX_GEOMETRY_POINTS,
+  MIN_GEOMETRY_POINTS,
+  createGeometry,
+  getGeometryPoints,
+} from '../utils/geometry';
+
+interface ShapeDrawerProps {
+  type: ReportGeometry['type'];
+  initialCenter: { latitude: number; longitude: number } | null;
+  initialGeometry: ReportGeometry | null;
+  color: string;
+  onConfirm: (geometry: ReportGeometry) => void;
+  onCancel: () => void;
+}
+
+const DEFAULT_LOCATION = { latitude: 37.78825, longitude: -122.4324 };
+const DRAWER_DELTA = 0.02;
+
+// Tap the map to add vertices of a road stretch (LineString) or an area (Polygon)
+export const ShapeDrawer: React.FC<ShapeDrawerProps> = ({
+  type,
+  initialCenter,
+  initialGeometry,
+  color,
+  onConfirm,
+  onCancel,
+}) => {
+  const [points, setPoints] = useState<LatLng[]>(
+    initialGeometry?.type === type ? getGeometryPoints(initialGeometry) : []
+  );
+
+  const center = points[0] ?? initialCenter ?? DEFAULT_LOCATION;
+  const minPoints = MIN_GEOMETRY_POINTS[type];
+  const full = points.length >= MAX_GEOMETRY_POINTS;
+
+  const addPoint = (coordinate: LatLng) => {
+    if (full) return;
+    setPoints(current => [...current, coordinate]);
+  };
+
+  const movePoint = (index: number, coordinate: LatLng) => {
+    setPoints(current => current.map((point, i) => (i === index ? coordinate : point)));
+  };
+
+  const hint = full
+    ? `At most ${MAX_GEOMETRY_POINTS} points`
+    : points.length < minPoints
+      ? `Tap the map to add at least ${minPoints} points`
+      : 'Tap to add more points, drag a point to move it';
+
+  return (
+    <View>
+      <MapView
+        style={styles.map}
+        initialRegion={{ ...center, latitudeDelta: DRAWER_DELTA, longitudeDelta: DRAWER_DELTA }}
+        onPress={(event) => addPoint(event.nativeEvent.coordinate)}
+        showsUserLocation={true}
+      >
+        {type === 'LineString' && points.length >= 2 && (
+          <Polyline coordinates={points} strokeColor={color} strokeWidth={6} lineCap="round" />
+        )}
+        {type === 'Polygon' && points.length >= 3 && (
+          <Polygon coordinates={points} strokeColor={color} strokeWidth={2} fillColor={`${color}40`} />
+        )}
+        {points.map((point, index) => (
+          <Marker
+            key={index}
+            coordinate={point}
+            pinColor={color}
+            draggable
+            onDragEnd={(event) => movePoint(index, event.nativeEvent.coordinate)}
+          />
+        ))}
+      </MapView>
+      <Text style={styles.hint}>{hint}</Text>
+
+      <View style={styles.tools}>
+        <Button
+          mode="outlined"
+          icon="undo"
+          onPress={() => setPoints(current => current.slice(0, -1))}
+          disabled={points.length === 0}
+          style={styles.tool}
+        >
+          Undo
+        </Button>
+        <Button
+          mode="outlined"
+          icon="delete-outline"
+          onPress={() => setPoints([])}
+          disabled={points.length === 0}
+          style={styles.tool}
+        >
+          Clear
+        </Button>
+      </View>
+      <View style={styles.actions}>
+        <Button mode="text" onPress={onCancel}>
+          Cancel
+        </Button>
+        <Button
+          mode="contained"
+          onPress={() => onConfirm(createGeometry(type, points))}
+          disabled={points.length < minPoints}
+        >
+          Done
+        </Button>
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  map: {
+    height: 320,
+    borderRadius: 8,
+  },
+  hint: {
+    fontSize: 12,
+    color: '#999',
+    marginTop: 4,
+  },
+  tools: {
+    flexDirection: 'row',
+    marginTop: 12,
+  },
+  tool: {
+    marginRight: 8,
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    marginTop: 12,
+  },
+});
@@ -0,0 +1,155 @@
+import React, { useState } from 'react';
+import { View, StyleSheet } from 'react-native';
+import { Button, Text } from 'react-native-paper';
+import { MapContainer, TileLayer, CircleMarker, Polygon, Polyline, useMapEvents } from 'react-leaflet';
+import 'leaflet/dist/leaflet.css';
+import { ReportGeometry } from '../types';
+import {
+  MAX_GEOMETRY_POINTS,
+  MIN_GEOMETRY_POINTS,
+  createGeometry,
+  getGeometryPoints,
+} from '../utils/geometry';
+
+interface ShapeDrawerProps {
+  type: ReportGeometry['type'];
+  initialCenter: { latitude: number; longitude: number } | null;
+  initialGeometry: ReportGeometry | null;
+  color: string;
+  onConfirm: (geometry: ReportGeometry) => void;
+  onCancel: () => void;
+}
+
+type Coordinate = { latitude: number; longitude: number };
+
+const DEFAULT_LOCATION = { latitude: 37.78825, longitude: -122.4324 };
+const DRAWER_ZOOM = 14;
+
+// Adds a vertex wherever the map is clicked
+const MapClickHandler: React.FC<{ onClick: (coordinate: Coordinate) => void }> = ({ onClick }) => {
+  useMapEvents({
+    click: (event) => onClick({ latitude: event.latlng.lat, longitude: event.latlng.lng }),
+  });
+  return null;
+};
+
+// Click the map to add vertices of a road stretch (LineString) or an area (Polygon)
+export const ShapeDrawer: React.FC<ShapeDrawerProps> = ({
+  type,
+  initialCenter,
+  initialGeometry,
+  color,
+  onConfirm,
+  onCancel,
+}) => {
+  const [points, setPoints] = useState<Coordinate[]>(
+    initialGeometry?.type === type ? getGeometryPoints(initialGeometry) : []
+  );
+
+  const center = points[0] ?? initialCenter ?? DEFAULT_LOCATION;
+  const minPoints = MIN_GEOMETRY_POINTS[type];
+  const full = points.length >= MAX_GEOMETRY_POINTS;
+  const positions = points.map(point => [point.latitude, point.longitude] as [number, number]);
+
+  const addPoint = (coordinate: Coordinate) => {
+    if (full) return;
+    setPoints(current => [...current, coordinate]);
+  };
+
+  const hint = full
+    ? `At most ${MAX_GEOMETRY_POINTS} points`
+    : points.length < minPoints
+      ? `Click the map to add at least ${minPoints} points`
+      : 'Click to add more points';
+
+  return (
+    <View>
+      <View style={styles.map}>
+        <MapContainer
+          center={[center.latitude, center.longitude]}
+          zoom={DRAWER_ZOOM}
+          style={{ height: '100%', width: '100%' }}
+        >
+          <TileLayer
+            attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
+            url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
+          />
+          <MapClickHandler onClick={addPoint} />
+          {type === 'LineString' && points.length >= 2 && (
+            <Polyline positions={positions} pathOptions={{ color, weight: 6, lineCap: 'round' }} />
+          )}
+          {type === 'Polygon' && points.length >= 3 && (
+            <Polygon positions={positions} pathOptions={{ color, weight: 2, fillColor: color, fillOpacity: 0.25 }} />
+          )}
+          {positions.map((position, index) => (
+            <CircleMarker
+              key={index}
+              center={position}
+              radius={6}
+              pathOptions={{ color: '#FFFFFF', weight: 2, fillColor: color, fillOpacity: 1 }}
+            />
+          ))}
+        </MapContainer>
+      </View>
+      <Text style={styles.hint}>{hint}</Text>
+
+      <View style={styles.tools}>
+        <Button
+          mode="outlined"
+          icon="undo"
+          onPress={() => setPoints(current => current.slice(0, -1))}
+          disabled={points.length === 0}
+          style={styles.tool}
+        >
+          Undo
+        </Button>
+        <Button
+          mode="outlined"
+          icon="delete-outline"
+          onPress={() => setPoints([])}
+          disabled={points.length === 0}
+          style={styles.tool}
+        >
+          Clear
+        </Button>
+      </View>
+      <View style={styles.actions}>
+        <Button mode="text" onPress={onCancel}>
+          Cancel
+        </Button>
+        <Button
+          mode="contained"
+          onPress={() => onConfirm(createGeometry(type, points))}
+          disabled={points.length < minPoints}
+        >
+          Done
+        </Button>
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  map: {
+    height: 320,
+    borderRadius: 8,
+    overflow: 'hidden',
+  },
+  hint: {
+    fontSize: 12,
+    color: '#999',
+    marginTop: 4,
+  },
+  tools: {
+    flexDirection: 'row',
+    marginTop: 12,
+  },
+  tool: {
+    marginRight: 8,
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    marginTop: 12,
+  },
+});
@@ -1,8 +1,11 @@
 import React from 'react';
-import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { View, Text, StyleSheet, TouchableOpacity, Image } from 'react-native';
 import { Avatar, Card } from 'react-native-paper';
-import { Report, ReportCategory } from '../types';
+import { IncidentEvent, PendingReportState, Report } from '../types';
+import { getCategoryColor, getCategoryIcon, getCategoryLabel } from '../utils/categories';
 import { ExpiryIndicator } from './ExpiryIndicator';
+import { getOriginalMedia, getThumbnailUrl } from '../utils/media';
+import { getIncidentEventIcon, getIncidentEventLabel } from '../utils/incidents';
 
 interface TimelineBranchProps {
   report: Report;
@@ -10,45 +13,10 @@ interface TimelineBranchProps {
   isLeft: boolean;
   isFirst: boolean;
   isLast: boolean;
+  pendingState?: PendingReportState; // set while the report is in the offline queue
+  updates?: IncidentEvent[]; // later events in the report's incident, oldest first
 }
 
-const getCategoryColor = (category: ReportCategory): string => {
-  switch (category) {
-    case 'police_checkpoint':
-      return '#1E40AF'; // Blue (matches marker design)
-    case 'accident':
-      return '#DC2626'; // Red (matches marker design)
-    case 'road_hazard':
-      return '#D97706'; // Orange (matches marker design)
-    case 'traffic_jam':
-      return '#7C2D12'; // Orange-Red (matches marker design)
-    case 'weather_alert':
-      return '#0F766E'; // Teal (matches marker design)
-    case 'general':
-      return '#374151'; // Gray (matches marker design)
-    default:
-      return '#374151';
-  }
-};
-
-const getCategoryIcon = (category: ReportCategory): string => {
-  switch (category) {
-    case 'police_checkpoint':
-      return '🚔'; // Matches filter buttons
-    case 'accident':
-      return '🚨'; // Matches filter buttons
-    case 'road_hazard':
-      return '⚠️'; // Matches filter buttons
-    case 'traffic_jam':
-      return '🚦'; // Matches filter buttons
-    case 'weather_alert':
-      return '🌧️'; // Matches filter buttons
-    case 'general':
-    default:
-      return '📍'; // Matches filter buttons
-  }
-};
-
 const formatTimestamp = (timestamp: string): string => {
   const date = new Date(timestamp);
   const now = new Date();
@@ -70,10 +38,14 @@ export const TimelineBranch: React.FC<TimelineBranchProps> = ({
   onPress,
   isLeft,
   isFirst,
-  isLast
+  isLast,
+  pendingState,
+  updates = []
 }) => {
   const categoryColor = getCategoryColor(report.category);
   const categoryIcon = getCategoryIcon(report.category);
+  const originalMedia = getOriginalMedia(report.media_files);
+  const photoMedia = originalMedia.find(m => m.file_type === 'photo');
 
   const truncateDescription = (text: string, maxLength: number = 80): string => {
     if (text.length <= maxLength) return text;
@@ -108,7 +80,8 @@ export const TimelineBranch: React.FC<TimelineBranchProps> = ({
       >
         <Card style={[
           styles.card,
-          { borderLeftColor: categoryColor, borderLeftWidth: 4 }
+          { borderLeftColor: categoryColor, borderLeftWidth: 4 },
+          pendingState && styles.cardPending
         ]}>
           <Card.Content style={styles.cardContent}>
             {/* Header */}
@@ -126,17 +99,29 @@ export const TimelineBranch: React.FC<TimelineBranchProps> = ({
                   {formatTimestamp(report.report_timestamp)}
                 </Text>
               </View>
-              <ExpiryIndicator 
-                category={report.category}
-                updatedAt={report.updated_at}
-                compact={true}
-              />
+              {pendingState ? (
+                <View style={[
+                  styles.pendingBadge,
+                  pendingState === 'failed' && styles.pendingBadgeFailed
+                ]}>
+                  <Text style={styles.pendingText}>
+                    {pendingState === 'failed' ? '⚠️ Failed' : '⏳ Pending'}
+                  </Text>
+                </View>
+              ) : (
+                <ExpiryIndicator 
+                  category={report.category}
+                  updatedAt={report.updated_at}
+                  lastConfirmedAt={report.last_confirmed_at}
+                  compact={true}
+                />
+              )}
             </View>
 
             {/* Category */}
             <View style={[styles.categoryBadge, { backgroundColor: categoryColor }]}>
               <Text style={styles.categoryText}>
-                {categoryIcon} {report.category.replace('_', ' ').toUpperCase()}
+                {categoryIcon} {getCategoryLabel(report.category).toUpperCase()}
               </Text>
             </View>
 
@@ -145,19 +130,48 @@ export const TimelineBranch: React.FC<TimelineBranchProps> = ({
               {truncateDescription(report.description)}
             </Text>
 
-            {/* Media indicator */}
-            {report.media_files && report.media_files.length > 0 && (
-              <View style={styles.mediaIndicator}>
-                {report.media_files.some(m => m.file_type === 'photo') && (
-                  <Text style={styles.mediaIcon}>📷</Text>
+            {/* Comment count and media indicator */}
+            {((report.comment_count ?? 0) > 0 || originalMedia.length > 0) && (
+              <View style={styles.footer}>
+                {(report.comment_count ?? 0) > 0 && (
+                  <Text style={styles.commentCount}>💬 {report.comment_count}</Text>
                 )}
-                {report.media_files.some(m => m.file_type === 'audio') && (
-                  <Text style={styles.mediaIcon}>🎤</Text>
+                {originalMedia.length > 0 && (
+                  <View style={styles.mediaIndicator}>
+                    {photoMedia && (
+                      <Image
+                        source={{ uri: getThumbnailUrl(photoMedia, report.media_files) }}
+                        style={styles.photoThumbnail}
+                      />
+                    )}
+                    {originalMedia.some(m => m.file_type === 'video') && (
+                      <Text style={styles.mediaIcon}>🎬</Text>
+                    )}
+                    {originalMedia.some(m => m.file_type === 'audio') && (
+                      <Text style={styles.mediaIcon}>🎤</Text>
+                    )}
+                  </View>
                 )}
               </View>
             )}
           </Card.Content>
         </Card>
+
+        {/* Incident updates branch off the report */}
+        {updates.map(update => (
+          <View key={update.id} style={styles.updateRow}>
+            <View style={[styles.updateLine, { backgroundColor: categoryColor }]} />
+            <View style={[styles.updateNode, { borderColor: categoryColor }]} />
+            <View style={styles.updateContent}>
+              <Text style={styles.updateText} numberOfLines={2}>
+                {getIncidentEventIcon(update.event_type)} {update.description || getIncidentEventLabel(update.event_type)}
+              </Text>
+              <Text style={styles.timestamp}>
+                {update.user?.username ? `${update.user.username} · ` : ''}{formatTimestamp(update.created_at)}
+              </Text>
+            </View>
+          </View>
+        ))}
       </TouchableOpacity>
     </View>
   );
@@ -228,6 +242,9 @@ const styles = StyleSheet.create({
     shadowOpacity: 0.1,
     shadowRadius: 2,
   },
+  cardPending: {
+    opacity: 0.7,
+  },
   cardContent: {
     padding: 12,
   },
@@ -269,12 +286,68 @@ const styles = StyleSheet.create({
     lineHeight: 16,
     marginBottom: 4,
   },
+  footer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  commentCount: {
+    fontSize: 11,
+    color: '#666',
+  },
   mediaIndicator: {
     flexDirection: 'row',
-    alignSelf: 'flex-end',
+    alignItems: 'center',
+    marginLeft: 'auto',
+  },
+  photoThumbnail: {
+    width: 32,
+    height: 32,
+    borderRadius: 4,
   },
   mediaIcon: {
     fontSize: 12,
     marginLeft: 4,
   },
+  updateRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 6,
+    paddingLeft: 12,
+  },
+  updateLine: {
+    position: 'absolute',
+    left: 16,
+    top: -6,
+    bottom: 0,
+    width: 2,
+  },
+  updateNode: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+    borderWidth: 2,
+    backgroundColor: 'white',
+    marginRight: 8,
+  },
+  updateContent: {
+    flex: 1,
+  },
+  updateText: {
+    fontSize: 12,
+    color: '#333',
+  },
+  pendingBadge: {
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+    borderRadius: 8,
+    backgroundColor: '#E0E7FF',
+  },
+  pendingBadgeFailed: {
+    backgroundColor: '#FEE2E2',
+  },
+  pendingText: {
+    fontSize: 10,
+    color: '#333',
+    fontWeight: '600',
+  },
 });
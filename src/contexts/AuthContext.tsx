@@ -1,7 +1,10 @@
-import React, { createContext, useContext, useEffect, useState } from 'react';
+import React, { createContext, useContext, useEffect, useRef, useState } from 'react';
+import { Platform } from 'react-native';
 import { User } from '@supabase/supabase-js';
 import { SupabaseService } from '../services/supabase';
-import { reportExpiryService } from '../services/reportExpiryService';
+import { reportAlertService } from '../services/reportAlertService';
+import { reportQueueService } from '../services/reportQueueService';
+import { NotificationService } from '../services/notificationService';
 import { User as AppUser } from '../types';
 
 interface AuthContextType {
@@ -32,6 +35,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   const [user, setUser] = useState<User | null>(null);
   const [appUser, setAppUser] = useState<AppUser | null>(null);
   const [loading, setLoading] = useState(true);
+  const pushTokenRef = useRef<string | null>(null);
 
   useEffect(() => {
     // Check for existing session
@@ -44,12 +48,8 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
 
         if (session?.user) {
           await loadUserProfile(session.user.id);
-          // Start expiry service when user logs in
-          reportExpiryService.start();
         } else {
           setAppUser(null);
-          // Stop expiry service when user logs out
-          reportExpiryService.stop();
         }
 
         setLoading(false);
@@ -59,6 +59,56 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     return () => subscription.unsubscribe();
   }, []);
 
+  useEffect(() => {
+    // Alert the signed-in user about nearby reports using their latest preferences
+    if (appUser) {
+      reportAlertService.start(appUser);
+    } else {
+      reportAlertService.stop();
+    }
+  }, [appUser]);
+
+  useEffect(() => {
+    if (appUser?.id) {
+      registerPushToken();
+      // Retry reports that were submitted without signal
+      reportQueueService.start(appUser.id);
+    } else {
+      reportQueueService.stop();
+    }
+  }, [appUser?.id]);
+
+  const registerPushToken = async () => {
+    if (Platform.OS === 'web') return;
+
+    try {
+      const token = await NotificationService.registerForPushNotificationsAsync();
+      if (!token) return;
+
+      const { error } = await SupabaseService.registerPushToken(token, Platform.OS);
+      if (error) {
+        console.error('❌ Error registering push token:', error);
+        return;
+      }
+
+      pushTokenRef.current = token;
+      console.log('✅ Push token registered');
+    } catch (error) {
+      console.error('❌ Error registering push token:', error);
+    }
+  };
+
+  const unregisterPushToken = async () => {
+    if (!pushTokenRef.current) return;
+
+    // Must run before signing out so the delete passes RLS
+    const { error } = await SupabaseService.unregisterPushToken(pushTokenRef.current);
+    if (error) {
+      console.error('❌ Error unregistering push token:', error);
+    }
+    pushTokenRef.current = null;
+  };
+
   const checkUser = async () => {
     try {
       const { user } = await SupabaseService.getCurrentUser();
@@ -149,6 +199,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   };
 
   const signOut = async () => {
+    await unregisterPushToken();
     await SupabaseService.signOut();
     setUser(null);
     setAppUser(null);
@@ -1,5 +1,5 @@
 import React from 'react';
-import { NavigationContainer } from '@react-navigation/native';
+import { NavigationContainer, RouteProp } from '@react-navigation/native';
 import { createStackNavigator } from '@react-navigation/stack';
 import { createBottomTabNavigator } from '@react-navigation/bottom-tabs';
 import { useAuth } from '../contexts/AuthContext';
@@ -11,8 +11,9 @@ import { ProfileScreen } from '../screens/ProfileScreen';
 import { ReportDetailScreen } from '../screens/ReportDetailScreen';
 import { ActivityIndicator, View, StyleSheet } from 'react-native';
 import { MaterialCommunityIcons } from '@expo/vector-icons';
+import { RootStackParamList } from '../types';
 
-const Stack = createStackNavigator();
+const Stack = createStackNavigator<RootStackParamList>();
 const Tab = createBottomTabNavigator();
 
 const TabNavigator = () => {
@@ -79,10 +80,10 @@ const MainStack = () => {
       <Stack.Screen 
         name="NewReport" 
         component={NewReportScreen}
-        options={{ 
-          title: 'New Report',
+        options={({ route }: { route: RouteProp<RootStackParamList, 'NewReport'> }) => ({
+          title: route.params?.updateOf ? 'Post Update' : 'New Report',
           presentation: 'modal',
-        }}
+        })}
       />
       <Stack.Screen 
         name="ReportDetail" 
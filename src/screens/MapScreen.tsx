@@ -1,17 +1,29 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { View, StyleSheet, Alert, ActivityIndicator } from 'react-native';
-import MapView, { Region } from 'react-native-maps';
-import { FAB, Portal, Modal, Text, Button, Snackbar } from 'react-native-paper';
+import MapView, { LongPressEvent, Region } from 'react-native-maps';
+import { FAB, Modal, Text, Button, Snackbar } from 'react-native-paper';
+import { useIsFocused } from '@react-navigation/native';
 
 import { ReportCard } from '../components/ReportCard';
 import { ReportMarker } from '../components/ReportMarker';
+import { ReportClusterMarker } from '../components/ReportClusterMarker';
+import { ReportShape } from '../components/ReportShape';
 import { Report } from '../types';
 import { SupabaseService } from '../services/supabase';
 import { LocationService } from '../services/locationService';
-import { useAuth } from '../contexts/AuthContext';
+import { ReportTileCache } from '../services/reportTileCache';
+import { ReportCluster, clusterReports, getClusterZoomRegion } from '../utils/clustering';
+import { reportIntersectsRegion } from '../utils/geometry';
 
-export const MapScreen: React.FC = () => {
-  const { appUser } = useAuth();
+// Wait for the map to settle before querying the new viewport
+const REGION_CHANGE_DEBOUNCE = 400; // ms
+
+interface MapScreenProps {
+  navigation: any;
+}
+
+export const MapScreen: React.FC<MapScreenProps> = ({ navigation }) => {
+  const isFocused = useIsFocused();
   const [reports, setReports] = useState<Report[]>([]);
   const [selectedReport, setSelectedReport] = useState<Report | null>(null);
   const [userLocation, setUserLocation] = useState<{ latitude: number; longitude: number } | null>(null);
@@ -28,10 +40,13 @@ export const MapScreen: React.FC = () => {
 
   const mapRef = useRef<MapView>(null);
   const subscriptionRef = useRef<any>(null);
+  const tileCacheRef = useRef(new ReportTileCache());
+  const regionRef = useRef<Region>(region);
+  const regionTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const loadRequestRef = useRef(0);
 
   useEffect(() => {
     initializeMap();
-    loadReports();
     setupRealtimeSubscription();
 
     // Cleanup subscription on unmount
@@ -39,20 +54,26 @@ export const MapScreen: React.FC = () => {
       if (subscriptionRef.current) {
         subscriptionRef.current.unsubscribe();
       }
+      if (regionTimerRef.current) {
+        clearTimeout(regionTimerRef.current);
+      }
     };
   }, []);
 
   const initializeMap = async () => {
+    let initialRegion = regionRef.current;
     try {
       const location = await LocationService.getCurrentLocation();
       if (location) {
         setUserLocation(location);
-        setRegion({
+        initialRegion = {
           latitude: location.latitude,
           longitude: location.longitude,
           latitudeDelta: 0.0922,
           longitudeDelta: 0.0421,
-        });
+        };
+        regionRef.current = initialRegion;
+        setRegion(initialRegion);
       }
     } catch (error) {
       console.error('Error getting location:', error);
@@ -60,23 +81,36 @@ export const MapScreen: React.FC = () => {
     } finally {
       setLoading(false);
     }
+
+    loadReports(initialRegion);
   };
 
-  const loadReports = async () => {
+  const loadReports = async (targetRegion: Region) => {
+    const requestId = ++loadRequestRef.current;
     try {
-      const { data, error } = await SupabaseService.getActiveReports();
-      if (error) {
-        console.error('Error loading reports:', error);
-        Alert.alert('Error', 'Failed to load reports. Please try again.');
-        return;
-      }
-      setReports(data || []);
+      const data = await tileCacheRef.current.getReportsInRegion(targetRegion);
+      // Ignore responses for viewports the user has already left
+      if (requestId !== loadRequestRef.current) return;
+      setReports(data);
     } catch (error) {
       console.error('Error loading reports:', error);
       Alert.alert('Error', 'Failed to load reports. Please try again.');
     }
   };
 
+  const handleRegionChangeComplete = (newRegion: Region) => {
+    regionRef.current = newRegion;
+    setRegion(newRegion);
+
+    if (regionTimerRef.current) {
+      clearTimeout(regionTimerRef.current);
+    }
+    regionTimerRef.current = setTimeout(() => {
+      regionTimerRef.current = null;
+      loadReports(newRegion);
+    }, REGION_CHANGE_DEBOUNCE);
+  };
+
   const setupRealtimeSubscription = () => {
     const subscription = SupabaseService.subscribeToReports(async (payload) => {
       console.log('📡 Real-time update received:', payload.eventType);
@@ -90,6 +124,10 @@ export const MapScreen: React.FC = () => {
             return;
           }
           if (newReport) {
+            tileCacheRef.current.upsertReport(newReport);
+            // Merged duplicates show up as an update to their incident
+            if (newReport.status !== 'active' || !isInViewport(newReport)) return;
+
             setReports(prev => {
               // Check if report already exists to prevent duplicates
               const exists = prev.some(r => r.id === newReport.id);
@@ -115,11 +153,15 @@ export const MapScreen: React.FC = () => {
           }
 
           if (updatedReport) {
-            // Check if report was marked as expired
-            if (updatedReport.status === 'expired') {
-              // Remove expired report from map
+            tileCacheRef.current.upsertReport(updatedReport);
+
+            // Check if report was marked as expired or resolved
+            if (updatedReport.status !== 'active') {
+              // Remove it from map
               setReports(prev => prev.filter(report => report.id !== updatedReport.id));
-              setNewReportNotification('Report expired and removed');
+              setNewReportNotification(
+                updatedReport.status === 'resolved' ? 'Report resolved and removed' : 'Report expired and removed'
+              );
               setSnackbarVisible(true);
             } else {
               // Update active report
@@ -136,6 +178,7 @@ export const MapScreen: React.FC = () => {
           console.error('Error in UPDATE handler:', error);
         }
       } else if (payload.eventType === 'DELETE') {
+        tileCacheRef.current.removeReport(payload.old.id);
         setReports(prev =>
           prev.filter(report => report.id !== payload.old.id)
         );
@@ -150,6 +193,8 @@ export const MapScreen: React.FC = () => {
     return subscription;
   };
 
+  const isInViewport = (report: Report) => reportIntersectsRegion(report, regionRef.current);
+
 
 
   const handleReportPress = (report: Report) => {
@@ -157,11 +202,20 @@ export const MapScreen: React.FC = () => {
     setModalVisible(true);
   };
 
+  const handleClusterPress = (cluster: ReportCluster) => {
+    mapRef.current?.animateToRegion(getClusterZoomRegion(cluster, regionRef.current));
+  };
+
   const closeModal = () => {
     setModalVisible(false);
     setSelectedReport(null);
   };
 
+  // Report something at the pressed point rather than at the user's position
+  const handleLongPress = (event: LongPressEvent) => {
+    navigation.navigate('NewReport', { location: event.nativeEvent.coordinate });
+  };
+
   const centerOnUser = async () => {
     try {
       const location = await LocationService.getCurrentLocation();
@@ -185,21 +239,7 @@ export const MapScreen: React.FC = () => {
     setNewReportNotification(null);
   };
 
-  const filterReportsByRadius = () => {
-    if (!userLocation || !appUser) return reports;
-    
-    return reports.filter(report => 
-      LocationService.isWithinRadius(
-        userLocation.latitude,
-        userLocation.longitude,
-        report.latitude,
-        report.longitude,
-        appUser.notification_radius
-      )
-    );
-  };
-
-  const filteredReports = filterReportsByRadius();
+  const mapItems = useMemo(() => clusterReports(reports, region), [reports, region]);
 
   if (loading) {
     return (
@@ -216,20 +256,36 @@ export const MapScreen: React.FC = () => {
         ref={mapRef}
         style={styles.map}
         region={region}
-        onRegionChangeComplete={setRegion}
+        onRegionChangeComplete={handleRegionChangeComplete}
+        onLongPress={handleLongPress}
         showsUserLocation={true}
         showsMyLocationButton={false}
         showsCompass={true}
         showsScale={true}
       >
-        {/* Render report markers */}
-        {filteredReports.map((report) => (
-          <ReportMarker
-            key={report.id}
-            report={report}
-            onPress={handleReportPress}
-          />
-        ))}
+        {/* Stretches of road and areas covered by reports */}
+        {reports
+          .filter(report => report.geometry)
+          .map(report => (
+            <ReportShape key={`shape-${report.id}`} report={report} onPress={handleReportPress} />
+          ))}
+
+        {/* Render report markers, grouping overlapping ones into clusters */}
+        {mapItems.map((item) =>
+          item.type === 'cluster' ? (
+            <ReportClusterMarker
+              key={`cluster-${item.cluster.id}`}
+              cluster={item.cluster}
+              onPress={handleClusterPress}
+            />
+          ) : (
+            <ReportMarker
+              key={item.report.id}
+              report={item.report}
+              onPress={handleReportPress}
+            />
+          )
+        )}
       </MapView>
 
 
@@ -241,30 +297,30 @@ export const MapScreen: React.FC = () => {
         label="My Location"
       />
 
-      <Portal>
-        <Modal
-          visible={modalVisible}
-          onDismiss={closeModal}
-          contentContainerStyle={styles.modalContainer}
-        >
-          {selectedReport && (
-            <View style={styles.modalContent}>
-              <ReportCard
-                report={selectedReport}
-                onPress={handleReportPress}
-                userLocation={userLocation}
-              />
-              <Button
-                mode="contained"
-                onPress={closeModal}
-                style={styles.closeButton}
-              >
-                Close
-              </Button>
-            </View>
-          )}
-        </Modal>
-      </Portal>
+      {/* Not in a Portal: the Portal host sits outside AuthProvider, which the card's vote buttons need */}
+      <Modal
+        visible={modalVisible}
+        onDismiss={closeModal}
+        contentContainerStyle={styles.modalContainer}
+      >
+        {selectedReport && (
+          <View style={styles.modalContent}>
+            <ReportCard
+              report={selectedReport}
+              onPress={handleReportPress}
+              userLocation={userLocation}
+              isActive={isFocused}
+            />
+            <Button
+              mode="contained"
+              onPress={closeModal}
+              style={styles.closeButton}
+            >
+              Close
+            </Button>
+          </View>
+        )}
+      </Modal>
 
       {/* Real-time Update Notification */}
       <Snackbar
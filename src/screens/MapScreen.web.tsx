@@ -1,141 +1,283 @@
-import React, { useState, useEffect } from 'react';
-import { View, StyleSheet, Alert, ActivityIndicator, Animated } from 'react-native';
-import { FAB, Portal, Modal, Text, Button, Snackbar, IconButton } from 'react-native-paper';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { View, StyleSheet, FlatList } from 'react-native';
+import { FAB, Text, Snackbar, Chip, ActivityIndicator } from 'react-native-paper';
+import { MapContainer, TileLayer, Marker, Popup, Circle, CircleMarker, Polyline, Polygon, useMapEvents } from 'react-leaflet';
+import L from 'leaflet';
+import 'leaflet/dist/leaflet.css';
+
+import { ReportCard } from '../components/ReportCard';
 import { SupabaseService } from '../services/supabase';
 import { LocationService } from '../services/locationService';
-import { Report, ReportCategory } from '../types';
-import { ReportCard } from '../components/ReportCard';
+import { ReportTileCache } from '../services/reportTileCache';
+import { useAuth } from '../contexts/AuthContext';
+import { MapRegion, Report, ReportCategory } from '../types';
+import { ReportCluster, clusterReports, getClusterZoomRegion } from '../utils/clustering';
+import { getGeometryPoints, reportIntersectsRegion } from '../utils/geometry';
+import {
+  CATEGORY_REGISTRY,
+  REPORT_CATEGORIES,
+  getCategoryColor,
+  getCategoryIcon,
+} from '../utils/categories';
 
 interface MapScreenProps {
   navigation: any;
 }
 
+const DEFAULT_CENTER: [number, number] = [37.78825, -122.4324];
+const DEFAULT_ZOOM = 13;
+
+// Wait for the map to settle before querying the new viewport
+const REGION_CHANGE_DEBOUNCE = 400; // ms
+
+const getRegionFromMap = (map: L.Map): MapRegion => {
+  const bounds = map.getBounds();
+  const center = bounds.getCenter();
+  return {
+    latitude: center.lat,
+    longitude: center.lng,
+    latitudeDelta: bounds.getNorth() - bounds.getSouth(),
+    longitudeDelta: bounds.getEast() - bounds.getWest(),
+  };
+};
+
+const createReportIcon = (report: Report) => {
+  // Arrow around the symbol pointing in the report's direction of travel
+  const arrow = report.heading != null
+    ? `<div style="position:absolute;inset:0;transform:rotate(${report.heading}deg);text-align:center;font-size:12px;line-height:12px;color:${getCategoryColor(report.category)};">▲</div>`
+    : '';
+
+  return L.divIcon({
+    className: '',
+    html: `
+      <div style="position:relative;width:48px;height:48px;">
+        ${arrow}
+        <div style="position:absolute;top:8px;left:8px;width:32px;font-size:28px;line-height:32px;text-align:center;text-shadow:1px 1px 3px #000;">${getCategoryIcon(report.category)}</div>
+      </div>`,
+    iconSize: [48, 48],
+    iconAnchor: [24, 24],
+    popupAnchor: [0, -24],
+  });
+};
+
+const createClusterIcon = (cluster: ReportCluster) => {
+  const count = cluster.reports.length;
+  const size = count >= 100 ? 52 : count >= 10 ? 44 : 36;
+  const color = getCategoryColor(cluster.categoryCounts[0].category);
+  const breakdown = cluster.categoryCounts
+    .slice(0, 3)
+    .map(({ category, count: categoryCount }) => `${getCategoryIcon(category)}${categoryCount}`)
+    .join(' ');
+
+  return L.divIcon({
+    className: '',
+    html: `
+      <div style="display:flex;flex-direction:column;align-items:center;">
+        <div style="width:${size}px;height:${size}px;border-radius:50%;background:${color};border:2px solid #fff;box-shadow:0 1px 3px rgba(0,0,0,0.4);display:flex;align-items:center;justify-content:center;color:#fff;font-weight:bold;font-size:14px;">${count}</div>
+        <div style="margin-top:2px;padding:1px 4px;border-radius:8px;background:rgba(255,255,255,0.9);font-size:10px;color:#333;white-space:nowrap;">${breakdown}</div>
+      </div>`,
+    iconSize: [size, size + 18],
+    iconAnchor: [size / 2, size / 2],
+  });
+};
+
+interface MapEventsHandlerProps {
+  onRegionChange: (region: MapRegion) => void;
+  onLongPress: (location: { latitude: number; longitude: number }) => void;
+}
+
+// Reports viewport changes from inside the Leaflet map context
+const MapEventsHandler: React.FC<MapEventsHandlerProps> = ({ onRegionChange, onLongPress }) => {
+  const map = useMapEvents({
+    moveend: () => onRegionChange(getRegionFromMap(map)),
+    // Leaflet fires contextmenu for right clicks and touch long-presses
+    contextmenu: (event) => onLongPress({ latitude: event.latlng.lat, longitude: event.latlng.lng }),
+  });
+
+  useEffect(() => {
+    onRegionChange(getRegionFromMap(map));
+  }, []);
+
+  return null;
+};
+
 export const MapScreen: React.FC<MapScreenProps> = ({ navigation }) => {
+  const { appUser } = useAuth();
   const [reports, setReports] = useState<Report[]>([]);
-  const [filteredReports, setFilteredReports] = useState<Report[]>([]);
+  const [region, setRegion] = useState<MapRegion | null>(null);
+  const [selectedCategories, setSelectedCategories] = useState<ReportCategory[]>([]);
+  const [userLocation, setUserLocation] = useState<{ latitude: number; longitude: number } | null>(null);
   const [loading, setLoading] = useState(true);
-  const [selectedReport, setSelectedReport] = useState<Report | null>(null);
-  const [modalVisible, setModalVisible] = useState(false);
   const [snackbarVisible, setSnackbarVisible] = useState(false);
   const [snackbarMessage, setSnackbarMessage] = useState('');
-  const [showRefreshIndicator, setShowRefreshIndicator] = useState(false);
-  const [selectedCategories, setSelectedCategories] = useState<ReportCategory[]>([]);
-  const [userLocation, setUserLocation] = useState<{ latitude: number; longitude: number } | null>(null);
-  const [notificationRadius, setNotificationRadius] = useState(5); // km
-  const refreshAnimation = new Animated.Value(0);
+
+  const mapRef = useRef<L.Map | null>(null);
+  const subscriptionRef = useRef<any>(null);
+  const tileCacheRef = useRef(new ReportTileCache());
+  const regionRef = useRef<MapRegion | null>(null);
+  const regionTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const loadRequestRef = useRef(0);
 
   useEffect(() => {
-    loadReports();
     getCurrentLocation();
-    
-    // Set up real-time subscription
-    const subscription = SupabaseService.subscribeToReports((payload) => {
-      console.log('📡 Real-time update received:', payload);
-      if (payload.eventType === 'INSERT') {
-        loadReports(); // Refresh all reports when new one is added
-        showSnackbar('New report added nearby!');
-      } else if (payload.eventType === 'UPDATE') {
-        loadReports(); // Refresh when report is updated
-      } else if (payload.eventType === 'DELETE') {
-        loadReports(); // Refresh when report is deleted
-      }
-    });
+    setupRealtimeSubscription();
 
     return () => {
-      if (subscription) {
-        SupabaseService.unsubscribeFromReports(subscription);
+      if (subscriptionRef.current) {
+        subscriptionRef.current.unsubscribe();
+      }
+      if (regionTimerRef.current) {
+        clearTimeout(regionTimerRef.current);
       }
     };
   }, []);
 
-  useEffect(() => {
-    filterReports();
-  }, [reports, selectedCategories, userLocation, notificationRadius]);
-
   const getCurrentLocation = async () => {
     try {
       const location = await LocationService.getCurrentLocation();
-      setUserLocation(location);
+      if (location) {
+        setUserLocation(location);
+        mapRef.current?.setView([location.latitude, location.longitude], DEFAULT_ZOOM);
+      }
     } catch (error) {
       console.error('Error getting location:', error);
+    } finally {
+      setLoading(false);
     }
   };
 
-  const loadReports = async () => {
+  const loadReports = async (targetRegion: MapRegion) => {
+    const requestId = ++loadRequestRef.current;
     try {
-      setLoading(true);
-      const { data, error } = showRefreshIndicator
-        ? await SupabaseService.refreshReports()
-        : await SupabaseService.getActiveReports();
-      
-      if (error) {
-        console.error('Error loading reports:', error);
-        showSnackbar('Error loading reports');
-        return;
-      }
-
-      setReports(data || []);
+      const data = await tileCacheRef.current.getReportsInRegion(targetRegion);
+      // Ignore responses for viewports the user has already left
+      if (requestId !== loadRequestRef.current) return;
+      setReports(data);
     } catch (error) {
       console.error('Error loading reports:', error);
       showSnackbar('Error loading reports');
-    } finally {
-      setLoading(false);
-      setShowRefreshIndicator(false);
     }
   };
 
-  const filterReports = () => {
-    let filtered = reports;
+  const handleRegionChange = (newRegion: MapRegion) => {
+    regionRef.current = newRegion;
+    setRegion(newRegion);
 
-    // Filter by selected categories
-    if (selectedCategories.length > 0) {
-      filtered = filtered.filter(report => selectedCategories.includes(report.category));
+    if (regionTimerRef.current) {
+      clearTimeout(regionTimerRef.current);
     }
+    regionTimerRef.current = setTimeout(() => {
+      regionTimerRef.current = null;
+      loadReports(newRegion);
+    }, REGION_CHANGE_DEBOUNCE);
+  };
 
-    // Filter by notification radius if user location is available
-    if (userLocation && notificationRadius > 0) {
-      filtered = filtered.filter(report => {
-        const distance = LocationService.calculateDistance(
-          userLocation.latitude,
-          userLocation.longitude,
-          report.latitude,
-          report.longitude
-        );
-        return distance <= notificationRadius;
-      });
-    }
+  const setupRealtimeSubscription = () => {
+    const subscription = SupabaseService.subscribeToReports(async (payload) => {
+      console.log('📡 Real-time update received:', payload.eventType);
+
+      if (payload.eventType === 'INSERT') {
+        try {
+          const { data: newReport, error } = await SupabaseService.getReportById(payload.new.id);
+          if (error) {
+            console.error('Error fetching new report:', error);
+            return;
+          }
+          if (newReport) {
+            tileCacheRef.current.upsertReport(newReport);
+            // Merged duplicates show up as an update to their incident
+            if (newReport.status !== 'active' || !isInViewport(newReport)) return;
+
+            setReports(prev => {
+              if (prev.some(r => r.id === newReport.id)) return prev;
+              return [newReport, ...prev];
+            });
+            showSnackbar(`New ${CATEGORY_REGISTRY[newReport.category].label.toLowerCase()} report added`);
+          }
+        } catch (error) {
+          console.error('Error in INSERT handler:', error);
+        }
+      } else if (payload.eventType === 'UPDATE') {
+        try {
+          const { data: updatedReport, error } = await SupabaseService.getReportById(payload.new.id);
+          if (error) {
+            console.error('Error fetching updated report:', error);
+            return;
+          }
+
+          if (updatedReport) {
+            tileCacheRef.current.upsertReport(updatedReport);
 
-    setFilteredReports(filtered);
+            if (updatedReport.status !== 'active') {
+              setReports(prev => prev.filter(report => report.id !== updatedReport.id));
+              showSnackbar(updatedReport.status === 'expired' ? 'Report expired and removed' : 'Report resolved');
+            } else {
+              setReports(prev =>
+                prev.map(report => report.id === updatedReport.id ? updatedReport : report)
+              );
+              showSnackbar('Report updated');
+            }
+          }
+        } catch (error) {
+          console.error('Error in UPDATE handler:', error);
+        }
+      } else if (payload.eventType === 'DELETE') {
+        tileCacheRef.current.removeReport(payload.old.id);
+        setReports(prev => prev.filter(report => report.id !== payload.old.id));
+        showSnackbar('Report removed');
+      }
+    });
+
+    subscriptionRef.current = subscription;
+    return subscription;
   };
 
-  const handleRefresh = async () => {
-    setShowRefreshIndicator(true);
-    
-    // Start rotation animation
-    Animated.loop(
-      Animated.timing(refreshAnimation, {
-        toValue: 1,
-        duration: 1000,
-        useNativeDriver: true,
-      })
-    ).start();
-
-    await loadReports();
-
-    // Stop animation
-    refreshAnimation.stopAnimation();
-    refreshAnimation.setValue(0);
+  const isInViewport = (report: Report) =>
+    regionRef.current !== null && reportIntersectsRegion(report, regionRef.current);
+
+  const toggleCategory = (category: ReportCategory) => {
+    setSelectedCategories(prev =>
+      prev.includes(category)
+        ? prev.filter(c => c !== category)
+        : [...prev, category]
+    );
   };
 
   const handleReportPress = (report: Report) => {
-    setSelectedReport(report);
-    setModalVisible(true);
+    navigation.navigate('ReportDetail', { report });
+  };
+
+  const handleClusterPress = (cluster: ReportCluster) => {
+    if (!mapRef.current || !regionRef.current) return;
+
+    const target = getClusterZoomRegion(cluster, regionRef.current);
+    mapRef.current.flyToBounds([
+      [target.latitude - target.latitudeDelta / 2, target.longitude - target.longitudeDelta / 2],
+      [target.latitude + target.latitudeDelta / 2, target.longitude + target.longitudeDelta / 2],
+    ]);
+  };
+
+  const centerOnUser = async () => {
+    try {
+      const location = await LocationService.getCurrentLocation();
+      if (location && mapRef.current) {
+        setUserLocation(location);
+        mapRef.current.flyTo([location.latitude, location.longitude], DEFAULT_ZOOM);
+      }
+    } catch (error) {
+      console.error('Error centering on user:', error);
+    }
   };
 
   const handleNewReport = () => {
     navigation.navigate('NewReport');
   };
 
+  // Report something at the pressed point rather than at the user's position
+  const handleLongPress = (location: { latitude: number; longitude: number }) => {
+    navigation.navigate('NewReport', { location });
+  };
+
   const showSnackbar = (message: string) => {
     setSnackbarMessage(message);
     setSnackbarVisible(true);
@@ -145,62 +287,150 @@ export const MapScreen: React.FC<MapScreenProps> = ({ navigation }) => {
     setSnackbarVisible(false);
   };
 
-  const spin = refreshAnimation.interpolate({
-    inputRange: [0, 1],
-    outputRange: ['0deg', '360deg'],
-  });
+  const visibleReports = useMemo(
+    () => selectedCategories.length > 0
+      ? reports.filter(report => selectedCategories.includes(report.category))
+      : reports,
+    [reports, selectedCategories]
+  );
+
+  const mapItems = useMemo(() => {
+    if (!region) return [];
+    return clusterReports(visibleReports, region);
+  }, [visibleReports, region]);
 
   return (
     <View style={styles.container}>
-      {/* Web fallback for map */}
-      <View style={[styles.map, styles.webMapFallback]}>
-        <Text style={styles.webMapText}>
-          Map view is not available on web. Please use the mobile app to view the map and report markers.
-        </Text>
-        <Text style={styles.webMapSubtext}>
-          Active reports: {filteredReports.length}
-        </Text>
-        
-        {/* Show list of reports on web */}
-        <View style={styles.reportsList}>
-          {filteredReports.slice(0, 3).map((report) => (
-            <ReportCard
-              key={report.id}
-              report={report}
-              onPress={handleReportPress}
-              userLocation={userLocation}
-            />
-          ))}
-          {filteredReports.length > 3 && (
-            <Text style={styles.moreReportsText}>
-              +{filteredReports.length - 3} more reports...
-            </Text>
+      <View style={styles.filterSection}>
+        <FlatList
+          horizontal
+          data={REPORT_CATEGORIES}
+          keyExtractor={(item) => item}
+          renderItem={({ item }) => (
+            <Chip
+              mode={selectedCategories.includes(item) ? 'flat' : 'outlined'}
+              selected={selectedCategories.includes(item)}
+              onPress={() => toggleCategory(item)}
+              style={[
+                styles.filterChip,
+                selectedCategories.includes(item) && {
+                  backgroundColor: getCategoryColor(item),
+                }
+              ]}
+              textStyle={[
+                styles.filterChipText,
+                selectedCategories.includes(item) && {
+                  color: 'white',
+                }
+              ]}
+            >
+              {getCategoryIcon(item)} {CATEGORY_REGISTRY[item].shortLabel}
+            </Chip>
           )}
-        </View>
+          showsHorizontalScrollIndicator={false}
+          contentContainerStyle={styles.filterList}
+        />
       </View>
 
-      {/* Refresh Button */}
-      <View style={styles.refreshContainer}>
-        <Animated.View style={{ transform: [{ rotate: spin }] }}>
-          <IconButton
-            icon="refresh"
-            size={24}
-            mode="contained"
-            onPress={handleRefresh}
-            style={styles.refreshButton}
-            disabled={showRefreshIndicator}
-          />
-        </Animated.View>
-        {showRefreshIndicator && (
-          <ActivityIndicator
-            size="small"
-            color="#0066FF"
-            style={styles.refreshIndicator}
+      <View style={styles.map}>
+        <MapContainer
+          ref={mapRef}
+          center={DEFAULT_CENTER}
+          zoom={DEFAULT_ZOOM}
+          style={{ height: '100%', width: '100%' }}
+        >
+          <TileLayer
+            attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
+            url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
           />
+          <MapEventsHandler onRegionChange={handleRegionChange} onLongPress={handleLongPress} />
+
+          {/* Notification radius around the user */}
+          {userLocation && (
+            <>
+              {appUser && (
+                <Circle
+                  center={[userLocation.latitude, userLocation.longitude]}
+                  radius={appUser.notification_radius}
+                  pathOptions={{ color: '#0066FF', weight: 1, fillOpacity: 0.08 }}
+                />
+              )}
+              <CircleMarker
+                center={[userLocation.latitude, userLocation.longitude]}
+                radius={7}
+                pathOptions={{ color: '#FFFFFF', weight: 2, fillColor: '#0066FF', fillOpacity: 1 }}
+              />
+            </>
+          )}
+
+          {/* Stretches of road and areas covered by reports */}
+          {visibleReports
+            .filter(report => report.geometry)
+            .map(report => {
+              const color = getCategoryColor(report.category);
+              const positions = getGeometryPoints(report.geometry!).map(
+                point => [point.latitude, point.longitude] as [number, number]
+              );
+              const eventHandlers = { click: () => handleReportPress(report) };
+              return report.geometry!.type === 'LineString' ? (
+                <Polyline
+                  key={`shape-${report.id}`}
+                  positions={positions}
+                  pathOptions={{ color, weight: 6, lineCap: 'round' }}
+                  eventHandlers={eventHandlers}
+                />
+              ) : (
+                <Polygon
+                  key={`shape-${report.id}`}
+                  positions={positions}
+                  pathOptions={{ color, weight: 2, fillColor: color, fillOpacity: 0.25 }}
+                  eventHandlers={eventHandlers}
+                />
+              );
+            })}
+
+          {/* Render report markers, grouping overlapping ones into clusters */}
+          {mapItems.map((item) =>
+            item.type === 'cluster' ? (
+              <Marker
+                key={`cluster-${item.cluster.id}`}
+                position={[item.cluster.latitude, item.cluster.longitude]}
+                icon={createClusterIcon(item.cluster)}
+                eventHandlers={{ click: () => handleClusterPress(item.cluster) }}
+              />
+            ) : (
+              <Marker
+                key={item.report.id}
+                position={[item.report.latitude, item.report.longitude]}
+                icon={createReportIcon(item.report)}
+              >
+                <Popup minWidth={320} maxWidth={400}>
+                  <ReportCard
+                    report={item.report}
+                    onPress={handleReportPress}
+                    userLocation={userLocation || undefined}
+                  />
+                </Popup>
+              </Marker>
+            )
+          )}
+        </MapContainer>
+
+        {loading && (
+          <View style={styles.loadingOverlay}>
+            <ActivityIndicator size="small" color="#0066FF" />
+            <Text style={styles.loadingText}>Finding your location...</Text>
+          </View>
         )}
       </View>
 
-      {/* Floating Action Button */}
+      <FAB
+        style={styles.locationFab}
+        icon="crosshairs-gps"
+        onPress={centerOnUser}
+        small
+      />
+
       <FAB
         style={styles.fab}
         icon="plus"
@@ -208,33 +438,7 @@ export const MapScreen: React.FC<MapScreenProps> = ({ navigation }) => {
         label="New Report"
       />
 
-      {/* Report Details Modal */}
-      <Portal>
-        <Modal
-          visible={modalVisible}
-          onDismiss={() => setModalVisible(false)}
-          contentContainerStyle={styles.modalContainer}
-        >
-          <View style={styles.modalContent}>
-            {selectedReport && (
-              <ReportCard
-                report={selectedReport}
-                onPress={() => {}}
-                userLocation={userLocation}
-              />
-            )}
-            <Button
-              mode="contained"
-              onPress={() => setModalVisible(false)}
-              style={styles.closeButton}
-            >
-              Close
-            </Button>
-          </View>
-        </Modal>
-      </Portal>
-
-      {/* Snackbar for notifications */}
+      {/* Real-time Update Notification */}
       <Snackbar
         visible={snackbarVisible}
         onDismiss={hideSnackbar}
@@ -255,73 +459,60 @@ const styles = StyleSheet.create({
   container: {
     flex: 1,
   },
-  map: {
-    flex: 1,
+  filterSection: {
+    backgroundColor: 'white',
+    paddingTop: 8,
+    elevation: 2,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 3,
+    zIndex: 1,
   },
-  webMapFallback: {
-    backgroundColor: '#f5f5f5',
-    justifyContent: 'flex-start',
-    alignItems: 'center',
-    padding: 20,
+  filterList: {
+    paddingHorizontal: 16,
+    paddingVertical: 8,
   },
-  webMapText: {
-    fontSize: 18,
-    fontWeight: 'bold',
-    color: '#333',
-    textAlign: 'center',
-    marginBottom: 10,
+  filterChip: {
+    marginRight: 12,
+    minHeight: 44,
   },
-  webMapSubtext: {
+  filterChipText: {
     fontSize: 14,
-    color: '#666',
-    textAlign: 'center',
-    marginBottom: 20,
+    fontWeight: '500',
   },
-  reportsList: {
-    width: '100%',
-    maxWidth: 600,
-  },
-  moreReportsText: {
-    textAlign: 'center',
-    color: '#666',
-    fontStyle: 'italic',
-    marginTop: 10,
+  map: {
+    flex: 1,
   },
-  refreshContainer: {
+  loadingOverlay: {
     position: 'absolute',
-    top: 60,
-    right: 16,
+    top: 16,
+    alignSelf: 'center',
+    flexDirection: 'row',
     alignItems: 'center',
+    backgroundColor: 'white',
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    zIndex: 1000,
   },
-  refreshButton: {
-    elevation: 4,
-    shadowColor: '#000',
-    shadowOffset: { width: 0, height: 2 },
-    shadowOpacity: 0.25,
-    shadowRadius: 4,
+  loadingText: {
+    marginLeft: 8,
+    color: '#666',
   },
-  refreshIndicator: {
+  locationFab: {
     position: 'absolute',
-    top: 8,
-    right: 8,
+    margin: 16,
+    right: 0,
+    bottom: 72,
+    zIndex: 1000,
   },
   fab: {
     position: 'absolute',
     margin: 16,
     right: 0,
     bottom: 0,
-  },
-  modalContainer: {
-    backgroundColor: 'white',
-    margin: 20,
-    borderRadius: 8,
-    maxHeight: '80%',
-  },
-  modalContent: {
-    padding: 16,
-  },
-  closeButton: {
-    marginTop: 16,
+    zIndex: 1000,
   },
   snackbar: {
     backgroundColor: '#0066FF',
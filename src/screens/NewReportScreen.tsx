@@ -9,45 +9,81 @@ import {
   IconButton,
   Portal,
   Modal,
-  ActivityIndicator
+  ActivityIndicator,
+  ProgressBar
 } from 'react-native-paper';
 import * as ImagePicker from 'expo-image-picker';
+import { StackScreenProps } from '@react-navigation/stack';
 import { Audio } from 'expo-av';
-import { ReportCategory } from '../types';
-import { SupabaseService } from '../services/supabase';
+import { ReportCategory, ReportDetails, ReportGeometry, RoadSide, RootStackParamList } from '../types';
+import { reportQueueService, ReportDraft } from '../services/reportQueueService';
 import { LocationService } from '../services/locationService';
+import { LocationPicker } from '../components/LocationPicker';
+import { ShapeDrawer } from '../components/ShapeDrawer';
+import {
+  getCategoryColor,
+  getCategoryDefinition,
+  getCategoryIcon,
+  getCategoryLabel,
+  getEnabledCategories,
+} from '../utils/categories';
 import { useAuth } from '../contexts/AuthContext';
+import { MAX_VIDEO_DURATION, MEDIA_LIMITS } from '../utils/media';
+import { getReportFields, sanitizeReportDetails } from '../utils/reportDetails';
+import { COMPASS_HEADINGS, ROAD_SIDES, formatHeading, getCompassHeading } from '../utils/direction';
+import { getGeometryCenter, getGeometryPoints } from '../utils/geometry';
+import { ReportDetailsForm } from '../components/ReportDetailsForm';
+
+type NewReportScreenProps = StackScreenProps<RootStackParamList, 'NewReport'>;
+
+const VIDEO_MIME_TYPES: Record<string, string> = {
+  mov: 'video/quicktime',
+  mp4: 'video/mp4',
+  m4v: 'video/x-m4v',
+  '3gp': 'video/3gpp',
+};
 
-interface NewReportScreenProps {
-  navigation: any;
-}
+const getVideoAttachment = (uri: string, index: number) => {
+  const extension = uri.split('?')[0].split('.').pop()?.toLowerCase() || 'mp4';
+  return {
+    file_type: 'video' as const,
+    uri,
+    file_name: `video_${index + 1}.${extension}`,
+    mime_type: VIDEO_MIME_TYPES[extension] || 'video/mp4',
+  };
+};
 
-export const NewReportScreen: React.FC<NewReportScreenProps> = ({ navigation }) => {
+export const NewReportScreen: React.FC<NewReportScreenProps> = ({ navigation, route }) => {
   const { user } = useAuth();
-  const [category, setCategory] = useState<ReportCategory | null>(null);
+  const updateOf = route.params?.updateOf;
+  const [category, setCategory] = useState<ReportCategory | null>(updateOf?.category ?? null);
   const [description, setDescription] = useState('');
+  const [details, setDetails] = useState<ReportDetails>({});
   const [location, setLocation] = useState<{ latitude: number; longitude: number } | null>(null);
   const [locationAddress, setLocationAddress] = useState('');
-  const [photoUri, setPhotoUri] = useState<string | null>(null);
+  const [geometry, setGeometry] = useState<ReportGeometry | null>(null);
+  const [heading, setHeading] = useState<number | null>(null);
+  const [headingFromCourse, setHeadingFromCourse] = useState(false);
+  const [roadSide, setRoadSide] = useState<RoadSide | null>(null);
+  const [photoUris, setPhotoUris] = useState<string[]>([]);
+  const [videoUris, setVideoUris] = useState<string[]>([]);
   const [audioUri, setAudioUri] = useState<string | null>(null);
   const [recording, setRecording] = useState<Audio.Recording | null>(null);
   const [isRecording, setIsRecording] = useState(false);
   const [isPlaying, setIsPlaying] = useState(false);
   const [sound, setSound] = useState<Audio.Sound | null>(null);
   const [loading, setLoading] = useState(false);
+  const [uploads, setUploads] = useState<{ label: string; progress: number }[]>([]);
   const [locationModalVisible, setLocationModalVisible] = useState(false);
-
-  const categories: { category: ReportCategory; label: string; icon: string; color: string }[] = [
-    { category: 'police_checkpoint', label: 'Police Checkpoint', icon: '🚔', color: '#FF0000' },
-    { category: 'accident', label: 'Accident', icon: '🚨', color: '#FF6600' },
-    { category: 'road_hazard', label: 'Road Hazard', icon: '⚠️', color: '#FFCC00' },
-    { category: 'traffic_jam', label: 'Traffic Jam', icon: '🚗', color: '#0066FF' },
-    { category: 'weather_alert', label: 'Weather Alert', icon: '🌧️', color: '#00CCFF' },
-    { category: 'general', label: 'General', icon: '📍', color: '#666666' },
-  ];
+  const [shapeModalVisible, setShapeModalVisible] = useState(false);
 
   useEffect(() => {
-    getCurrentLocation();
+    const initialLocation = updateOf ?? route.params?.location;
+    if (initialLocation) {
+      setPickedLocation(initialLocation);
+    } else {
+      getCurrentLocation();
+    }
     setupAudio();
   }, []);
 
@@ -63,26 +99,54 @@ export const NewReportScreen: React.FC<NewReportScreenProps> = ({ navigation })
     }
   };
 
+  // Fields and shapes belong to a category, so switching category starts them over
+  const selectCategory = (cat: ReportCategory) => {
+    if (cat !== category) {
+      setCategory(cat);
+      setDetails({});
+      setGeometry(null);
+    }
+  };
+
+  const geometryType = category ? getCategoryDefinition(category).geometryType : undefined;
+
   const getCurrentLocation = async () => {
     try {
       const currentLocation = await LocationService.getCurrentLocation();
       if (currentLocation) {
-        setLocation(currentLocation);
-        const address = await LocationService.reverseGeocode(
-          currentLocation.latitude,
-          currentLocation.longitude
-        );
-        if (address) {
-          setLocationAddress(
-            `${address.street || ''} ${address.city || ''} ${address.region || ''}`.trim()
-          );
+        // Reporting while driving: assume the report affects the direction of travel
+        const course = LocationService.getCourse(currentLocation);
+        if (course !== null) {
+          setHeading(course);
+          setHeadingFromCourse(true);
         }
+        await setPickedLocation(currentLocation);
       }
     } catch (error) {
       console.error('Error getting location:', error);
     }
   };
 
+  const toggleHeading = (compassHeading: number) => {
+    const selected = heading !== null && getCompassHeading(heading).heading === compassHeading;
+    setHeading(selected ? null : compassHeading);
+    setHeadingFromCourse(false);
+  };
+
+  const setPickedLocation = async (point: { latitude: number; longitude: number }, address?: string) => {
+    setLocation({ latitude: point.latitude, longitude: point.longitude });
+    if (address !== undefined) {
+      setLocationAddress(address);
+      return;
+    }
+
+    setLocationAddress('');
+    const result = await LocationService.reverseGeocode(point.latitude, point.longitude);
+    if (result) {
+      setLocationAddress(LocationService.formatAddress(result));
+    }
+  };
+
   const takePhoto = async () => {
     try {
       const { status } = await ImagePicker.requestCameraPermissionsAsync();
@@ -95,11 +159,12 @@ export const NewReportScreen: React.FC<NewReportScreenProps> = ({ navigation })
         mediaTypes: ImagePicker.MediaTypeOptions.Images,
         allowsEditing: true,
         aspect: [4, 3],
-        quality: 0.8,
+        quality: 1, // compressed and stripped of EXIF before upload
+        exif: false,
       });
 
       if (!result.canceled && result.assets[0]) {
-        setPhotoUri(result.assets[0].uri);
+        setPhotoUris(prev => [...prev, result.assets[0].uri].slice(0, MEDIA_LIMITS.photo));
       }
     } catch (error) {
       console.error('Error taking photo:', error);
@@ -117,13 +182,16 @@ export const NewReportScreen: React.FC<NewReportScreenProps> = ({ navigation })
 
       const result = await ImagePicker.launchImageLibraryAsync({
         mediaTypes: ImagePicker.MediaTypeOptions.Images,
-        allowsEditing: true,
-        aspect: [4, 3],
-        quality: 0.8,
+        allowsMultipleSelection: true,
+        selectionLimit: MEDIA_LIMITS.photo - photoUris.length,
+        quality: 1, // compressed and stripped of EXIF before upload
+        exif: false,
       });
 
-      if (!result.canceled && result.assets[0]) {
-        setPhotoUri(result.assets[0].uri);
+      if (!result.canceled) {
+        setPhotoUris(prev =>
+          [...prev, ...result.assets.map(asset => asset.uri)].slice(0, MEDIA_LIMITS.photo)
+        );
       }
     } catch (error) {
       console.error('Error picking photo:', error);
@@ -131,6 +199,57 @@ export const NewReportScreen: React.FC<NewReportScreenProps> = ({ navigation })
     }
   };
 
+  const recordVideo = async () => {
+    try {
+      const { status } = await ImagePicker.requestCameraPermissionsAsync();
+      if (status !== 'granted') {
+        Alert.alert('Permission needed', 'Camera permission is required to record video');
+        return;
+      }
+
+      const result = await ImagePicker.launchCameraAsync({
+        mediaTypes: ImagePicker.MediaTypeOptions.Videos,
+        videoMaxDuration: MAX_VIDEO_DURATION,
+        quality: ImagePicker.UIImagePickerControllerQualityType.Medium,
+      });
+
+      if (!result.canceled && result.assets[0]) {
+        setVideoUris(prev => [...prev, result.assets[0].uri].slice(0, MEDIA_LIMITS.video));
+      }
+    } catch (error) {
+      console.error('Error recording video:', error);
+      Alert.alert('Error', 'Failed to record video');
+    }
+  };
+
+  const pickVideo = async () => {
+    try {
+      const { status } = await ImagePicker.requestMediaLibraryPermissionsAsync();
+      if (status !== 'granted') {
+        Alert.alert('Permission needed', 'Photo library permission is required');
+        return;
+      }
+
+      const result = await ImagePicker.launchImageLibraryAsync({
+        mediaTypes: ImagePicker.MediaTypeOptions.Videos,
+        videoMaxDuration: MAX_VIDEO_DURATION,
+      });
+
+      if (!result.canceled && result.assets[0]) {
+        const asset = result.assets[0];
+        // duration is reported in milliseconds
+        if (asset.duration && asset.duration > MAX_VIDEO_DURATION * 1000) {
+          Alert.alert('Video too long', `Please choose a clip of ${MAX_VIDEO_DURATION} seconds or less`);
+          return;
+        }
+        setVideoUris(prev => [...prev, asset.uri].slice(0, MEDIA_LIMITS.video));
+      }
+    } catch (error) {
+      console.error('Error picking video:', error);
+      Alert.alert('Error', 'Failed to pick video');
+    }
+  };
+
   const startRecording = async () => {
     try {
       const { recording } = await Audio.Recording.createAsync(
@@ -191,8 +310,12 @@ export const NewReportScreen: React.FC<NewReportScreenProps> = ({ navigation })
     }
   };
 
-  const removePhoto = () => {
-    setPhotoUri(null);
+  const removePhoto = (index: number) => {
+    setPhotoUris(prev => prev.filter((_, i) => i !== index));
+  };
+
+  const removeVideo = (index: number) => {
+    setVideoUris(prev => prev.filter((_, i) => i !== index));
   };
 
   const removeAudio = () => {
@@ -227,22 +350,42 @@ export const NewReportScreen: React.FC<NewReportScreenProps> = ({ navigation })
     setLoading(true);
 
     try {
-      // Create the report
-      const reportData = {
-        user_id: user.id,
-        category,
-        description: description.trim(),
-        latitude: location.latitude,
-        longitude: location.longitude,
-      };
-
-      const { data: report, error: reportError } = await SupabaseService.createReport(reportData);
-
-      if (reportError) {
+      const media: ReportDraft['media'] = [];
+      photoUris.forEach((uri, index) => {
+        media.push({ file_type: 'photo', uri, file_name: `photo_${index + 1}.jpg`, mime_type: 'image/jpeg' });
+      });
+      videoUris.forEach((uri, index) => {
+        media.push(getVideoAttachment(uri, index));
+      });
+      if (audioUri) {
+        media.push({ file_type: 'audio', uri: audioUri, file_name: 'audio.m4a', mime_type: 'audio/mp4' });
+      }
+      setUploads(media.map(m => ({ label: m.file_name, progress: 0 })));
+
+      const { status, report: created, error: reportError } = await reportQueueService.submit(
+        {
+          user_id: user.id,
+          category,
+          description: description.trim(),
+          details: sanitizeReportDetails(category, details),
+          heading: heading === null ? null : Math.round(heading) % 360,
+          road_side: roadSide,
+          geometry,
+          merged_into: updateOf?.id ?? null,
+          latitude: location.latitude,
+          longitude: location.longitude,
+          media,
+        },
+        (index, progress) => {
+          setUploads(prev => prev.map((upload, i) => i === index ? { ...upload, progress } : upload));
+        }
+      );
+
+      if (status === 'rejected') {
         console.error('Error creating report:', reportError);
 
         // Provide specific error messages for common issues
-        if (reportError.code === '23503') {
+        if (reportError?.code === '23503') {
           Alert.alert(
             'Profile Error',
             'Your user profile is not set up properly. Please try logging out and logging back in.',
@@ -251,7 +394,7 @@ export const NewReportScreen: React.FC<NewReportScreenProps> = ({ navigation })
             ]
           );
           return;
-        } else if (reportError.code === '42P01') {
+        } else if (reportError?.code === '42P01') {
           Alert.alert(
             'Database Error',
             'The database is not set up properly. Please contact the administrator.',
@@ -265,17 +408,29 @@ export const NewReportScreen: React.FC<NewReportScreenProps> = ({ navigation })
         throw reportError;
       }
 
-      // Upload media files if any
-      if (report) {
-        if (photoUri) {
-          const photoFile = await createFileFromUri(photoUri, 'photo.jpg');
-          await SupabaseService.uploadMedia(photoFile, report.id, 'photo');
-        }
+      if (status === 'queued') {
+        Alert.alert(
+          'Saved Offline',
+          'Your report will be sent automatically when you are back online.',
+          [{ text: 'OK', onPress: () => navigation.goBack() }]
+        );
+        return;
+      }
 
-        if (audioUri) {
-          const audioFile = await createFileFromUri(audioUri, 'audio.m4a');
-          await SupabaseService.uploadMedia(audioFile, report.id, 'audio');
-        }
+      if (updateOf) {
+        Alert.alert('Update Posted', 'Your update was added to the incident.', [
+          { text: 'OK', onPress: () => navigation.goBack() }
+        ]);
+        return;
+      }
+
+      if (created?.merged_into) {
+        Alert.alert(
+          'Already Reported',
+          'This was already reported nearby. Your report was added to it as a confirmation.',
+          [{ text: 'OK', onPress: () => navigation.goBack() }]
+        );
+        return;
       }
 
       Alert.alert('Success', 'Report submitted successfully', [
@@ -286,43 +441,58 @@ export const NewReportScreen: React.FC<NewReportScreenProps> = ({ navigation })
       Alert.alert('Error', 'Failed to submit report. Please try again.');
     } finally {
       setLoading(false);
+      setUploads([]);
     }
   };
 
-  const createFileFromUri = async (uri: string, fileName: string): Promise<File> => {
-    const response = await fetch(uri);
-    const blob = await response.blob();
-    return new File([blob], fileName, { type: blob.type });
-  };
-
   return (
     <ScrollView style={styles.container}>
       <Card style={styles.card}>
         <Card.Content>
-          <Text style={styles.sectionTitle}>Category</Text>
-          <View style={styles.categoriesContainer}>
-            {categories.map((cat) => (
-              <Chip
-                key={cat.category}
-                mode={category === cat.category ? 'flat' : 'outlined'}
-                selected={category === cat.category}
-                onPress={() => setCategory(cat.category)}
-                style={[
-                  styles.categoryChip,
-                  category === cat.category && { backgroundColor: cat.color }
-                ]}
-                textStyle={[
-                  styles.categoryChipText,
-                  category === cat.category && { color: 'white' }
-                ]}
-              >
-                {cat.icon} {cat.label}
-              </Chip>
-            ))}
-          </View>
+          {updateOf ? (
+            <>
+              <Text style={styles.sectionTitle}>
+                Update to {getCategoryIcon(updateOf.category)} {getCategoryLabel(updateOf.category)}
+              </Text>
+              <Text style={styles.updateOfText}>{updateOf.description}</Text>
+            </>
+          ) : (
+            <>
+              <Text style={styles.sectionTitle}>Category</Text>
+              <View style={styles.categoriesContainer}>
+                {getEnabledCategories().map((cat) => (
+                  <Chip
+                    key={cat}
+                    mode={category === cat ? 'flat' : 'outlined'}
+                    selected={category === cat}
+                    onPress={() => selectCategory(cat)}
+                    style={[
+                      styles.categoryChip,
+                      category === cat && { backgroundColor: getCategoryColor(cat) }
+                    ]}
+                    textStyle={[
+                      styles.categoryChipText,
+                      category === cat && { color: 'white' }
+                    ]}
+                  >
+                    {getCategoryIcon(cat)} {getCategoryLabel(cat)}
+                  </Chip>
+                ))}
+              </View>
+            </>
+          )}
         </Card.Content>
       </Card>
 
+      {category && getReportFields(category).length > 0 && (
+        <Card style={styles.card}>
+          <Card.Content>
+            <Text style={styles.sectionTitle}>{getCategoryLabel(category)} Details</Text>
+            <ReportDetailsForm category={category} details={details} onChange={setDetails} />
+          </Card.Content>
+        </Card>
+      )}
+
       <Card style={styles.card}>
         <Card.Content>
           <Text style={styles.sectionTitle}>Description</Text>
@@ -354,30 +524,157 @@ export const NewReportScreen: React.FC<NewReportScreenProps> = ({ navigation })
               📍 {location.latitude.toFixed(6)}, {location.longitude.toFixed(6)}
             </Text>
           )}
+
+          {category && geometryType && !updateOf && (
+            <>
+              <Text style={styles.subsectionTitle}>
+                {geometryType === 'LineString' ? 'Affected Road (optional)' : 'Affected Area (optional)'}
+              </Text>
+              <View style={styles.mediaButtons}>
+                <Button
+                  mode="outlined"
+                  onPress={() => setShapeModalVisible(true)}
+                  icon={geometryType === 'LineString' ? 'vector-polyline' : 'vector-polygon'}
+                >
+                  {geometry
+                    ? 'Edit Shape'
+                    : geometryType === 'LineString' ? 'Draw Road Stretch' : 'Draw Area'}
+                </Button>
+                {geometry && (
+                  <Button mode="text" onPress={() => setGeometry(null)}>
+                    Remove
+                  </Button>
+                )}
+              </View>
+              {geometry && (
+                <Text style={styles.locationText}>
+                  {getGeometryPoints(geometry).length} points drawn
+                </Text>
+              )}
+            </>
+          )}
+
+          <Text style={styles.subsectionTitle}>Direction of Travel (optional)</Text>
+          <View style={styles.categoriesContainer}>
+            {COMPASS_HEADINGS.map(compass => {
+              const selected = heading !== null && getCompassHeading(heading).heading === compass.heading;
+              return (
+                <Chip
+                  key={compass.label}
+                  compact
+                  mode={selected ? 'flat' : 'outlined'}
+                  selected={selected}
+                  onPress={() => toggleHeading(compass.heading)}
+                >
+                  {compass.label}
+                </Chip>
+              );
+            })}
+          </View>
+          {heading !== null && (
+            <Text style={styles.hintText}>
+              {formatHeading(heading)}{headingFromCourse ? ', from your current course' : ''}
+            </Text>
+          )}
+
+          <Text style={styles.subsectionTitle}>Side of the Road (optional)</Text>
+          <View style={styles.categoriesContainer}>
+            {ROAD_SIDES.map(side => (
+              <Chip
+                key={side.value}
+                compact
+                mode={roadSide === side.value ? 'flat' : 'outlined'}
+                selected={roadSide === side.value}
+                onPress={() => setRoadSide(roadSide === side.value ? null : side.value)}
+              >
+                {side.label}
+              </Chip>
+            ))}
+          </View>
         </Card.Content>
       </Card>
 
       <Card style={styles.card}>
         <Card.Content>
-          <Text style={styles.sectionTitle}>Photo</Text>
+          <Text style={styles.sectionTitle}>
+            Photos ({photoUris.length}/{MEDIA_LIMITS.photo})
+          </Text>
           <View style={styles.mediaButtons}>
-            <Button mode="outlined" onPress={takePhoto} icon="camera">
+            <Button
+              mode="outlined"
+              onPress={takePhoto}
+              icon="camera"
+              disabled={photoUris.length >= MEDIA_LIMITS.photo}
+            >
               Take Photo
             </Button>
-            <Button mode="outlined" onPress={pickPhoto} icon="image">
-              Choose Photo
+            <Button
+              mode="outlined"
+              onPress={pickPhoto}
+              icon="image"
+              disabled={photoUris.length >= MEDIA_LIMITS.photo}
+            >
+              Choose Photos
             </Button>
           </View>
-          {photoUri && (
-            <View style={styles.mediaPreview}>
-              <Image source={{ uri: photoUri }} style={styles.photoPreview} />
-              <IconButton
-                icon="close"
-                size={20}
-                onPress={removePhoto}
-                style={styles.removeButton}
-              />
-            </View>
+          {photoUris.length > 0 && (
+            <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+              {photoUris.map((uri, index) => (
+                <View key={uri} style={styles.thumbnailPreview}>
+                  <Image source={{ uri }} style={styles.thumbnailImage} />
+                  <IconButton
+                    icon="close"
+                    size={16}
+                    onPress={() => removePhoto(index)}
+                    style={styles.removeButton}
+                  />
+                </View>
+              ))}
+            </ScrollView>
+          )}
+        </Card.Content>
+      </Card>
+
+      <Card style={styles.card}>
+        <Card.Content>
+          <Text style={styles.sectionTitle}>
+            Video Clips ({videoUris.length}/{MEDIA_LIMITS.video})
+          </Text>
+          <View style={styles.mediaButtons}>
+            <Button
+              mode="outlined"
+              onPress={recordVideo}
+              icon="video"
+              disabled={videoUris.length >= MEDIA_LIMITS.video}
+            >
+              Record
+            </Button>
+            <Button
+              mode="outlined"
+              onPress={pickVideo}
+              icon="filmstrip"
+              disabled={videoUris.length >= MEDIA_LIMITS.video}
+            >
+              Choose Video
+            </Button>
+          </View>
+          <Text style={styles.hintText}>Clips up to {MAX_VIDEO_DURATION} seconds</Text>
+          {videoUris.length > 0 && (
+            <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+              {videoUris.map((uri, index) => (
+                <View key={uri} style={styles.thumbnailPreview}>
+                  <View style={[styles.thumbnailImage, styles.videoPreview]}>
+                    <Text style={styles.videoPreviewText}>🎬 Clip {index + 1}</Text>
+                  </View>
+                  <IconButton
+                    icon="close"
+                    size={16}
+                    onPress={() => removeVideo(index)}
+                    style={styles.removeButton}
+                  />
+                </View>
+              ))}
+            </ScrollView>
           )}
         </Card.Content>
       </Card>
@@ -417,6 +714,22 @@ export const NewReportScreen: React.FC<NewReportScreenProps> = ({ navigation })
         </Card.Content>
       </Card>
 
+      {/* Upload progress per attachment */}
+      {loading && uploads.length > 0 && (
+        <Card style={styles.card}>
+          <Card.Content>
+            {uploads.map((upload, index) => (
+              <View key={index} style={styles.uploadRow}>
+                <Text style={styles.uploadLabel}>
+                  {upload.label} {Math.round(upload.progress * 100)}%
+                </Text>
+                <ProgressBar progress={upload.progress} color="#0066FF" />
+              </View>
+            ))}
+          </Card.Content>
+        </Card>
+      )}
+
       <Button
         mode="contained"
         onPress={submitReport}
@@ -434,18 +747,41 @@ export const NewReportScreen: React.FC<NewReportScreenProps> = ({ navigation })
           contentContainerStyle={styles.modalContainer}
         >
           <Text style={styles.modalTitle}>Location</Text>
-          <Text style={styles.modalText}>
-            Current location: {locationAddress || 'Not available'}
+          {locationModalVisible && (
+            <LocationPicker
+              initialLocation={location}
+              onConfirm={(point, address) => {
+                setPickedLocation(point, address);
+                setLocationModalVisible(false);
+              }}
+              onCancel={() => setLocationModalVisible(false)}
+            />
+          )}
+        </Modal>
+
+        <Modal
+          visible={shapeModalVisible}
+          onDismiss={() => setShapeModalVisible(false)}
+          contentContainerStyle={styles.modalContainer}
+        >
+          <Text style={styles.modalTitle}>
+            {geometryType === 'LineString' ? 'Affected Road' : 'Affected Area'}
           </Text>
-          <Button
-            mode="contained"
-            onPress={() => {
-              getCurrentLocation();
-              setLocationModalVisible(false);
-            }}
-          >
-            Use Current Location
-          </Button>
+          {shapeModalVisible && category && geometryType && (
+            <ShapeDrawer
+              type={geometryType}
+              initialCenter={location}
+              initialGeometry={geometry}
+              color={getCategoryColor(category)}
+              onConfirm={(drawn) => {
+                setGeometry(drawn);
+                // The report's marker sits on the drawn shape
+                setPickedLocation(getGeometryCenter(drawn));
+                setShapeModalVisible(false);
+              }}
+              onCancel={() => setShapeModalVisible(false)}
+            />
+          )}
         </Modal>
       </Portal>
     </ScrollView>
@@ -475,6 +811,10 @@ const styles = StyleSheet.create({
   categoryChip: {
     marginBottom: 8,
   },
+  updateOfText: {
+    fontSize: 14,
+    color: '#666',
+  },
   categoryChipText: {
     fontSize: 12,
   },
@@ -489,6 +829,13 @@ const styles = StyleSheet.create({
     color: '#666',
     fontFamily: 'monospace',
   },
+  subsectionTitle: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#333',
+    marginTop: 16,
+    marginBottom: 8,
+  },
   mediaButtons: {
     flexDirection: 'row',
     gap: 8,
@@ -498,11 +845,28 @@ const styles = StyleSheet.create({
     position: 'relative',
     alignItems: 'center',
   },
-  photoPreview: {
-    width: 200,
-    height: 150,
+  thumbnailPreview: {
+    marginRight: 12,
+    marginTop: 8,
+  },
+  thumbnailImage: {
+    width: 100,
+    height: 75,
     borderRadius: 8,
   },
+  videoPreview: {
+    backgroundColor: '#222',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  videoPreviewText: {
+    color: 'white',
+    fontSize: 12,
+  },
+  hintText: {
+    fontSize: 12,
+    color: '#666',
+  },
   audioPreview: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -525,6 +889,14 @@ const styles = StyleSheet.create({
     margin: 16,
     marginTop: 8,
   },
+  uploadRow: {
+    marginBottom: 8,
+  },
+  uploadLabel: {
+    fontSize: 12,
+    color: '#666',
+    marginBottom: 4,
+  },
   modalContainer: {
     backgroundColor: 'white',
     padding: 20,
@@ -536,8 +908,4 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     marginBottom: 12,
   },
-  modalText: {
-    marginBottom: 16,
-    color: '#666',
-  },
 }); 
\ No newline at end of file
@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { View, StyleSheet, ScrollView, Alert } from 'react-native';
 import { 
   Card, 
@@ -14,7 +14,15 @@ import {
 } from 'react-native-paper';
 import Slider from '@react-native-community/slider';
 import { useAuth } from '../contexts/AuthContext';
-import { NotificationPreferences } from '../types';
+import { NotificationPreferences, UserReputation } from '../types';
+import { SupabaseService } from '../services/supabase';
+import {
+  CATEGORY_REGISTRY,
+  REPORT_CATEGORIES,
+  getCategoryIcon,
+  getDefaultNotificationPreferences,
+} from '../utils/categories';
+import { LOW_TRUST_REPUTATION, getReputationLabel, getReputationLevel } from '../utils/reputation';
 
 export const ProfileScreen: React.FC = () => {
   const { user, appUser, updateUserProfile, signOut } = useAuth();
@@ -24,17 +32,24 @@ export const ProfileScreen: React.FC = () => {
     appUser?.notification_radius || 5000
   );
   const [notificationPreferences, setNotificationPreferences] = useState<NotificationPreferences>(
-    appUser?.notification_preferences || {
-      police_checkpoints: true,
-      accidents: true,
-      road_hazards: true,
-      traffic_jams: true,
-      weather_alerts: true,
-      general_alerts: true,
-    }
+    appUser?.notification_preferences || getDefaultNotificationPreferences()
+  );
+  const [ignoreOppositeDirection, setIgnoreOppositeDirection] = useState(
+    appUser?.ignore_opposite_direction ?? true
   );
   const [logoutDialogVisible, setLogoutDialogVisible] = useState(false);
   const [loading, setLoading] = useState(false);
+  const [reputation, setReputation] = useState<UserReputation | null>(null);
+
+  useEffect(() => {
+    if (!appUser) return;
+
+    SupabaseService.getUserReputation(appUser.id).then(({ data }) => {
+      if (data) {
+        setReputation(data);
+      }
+    });
+  }, [appUser?.id]);
 
   const handleSaveProfile = async () => {
     if (!appUser) return;
@@ -45,6 +60,7 @@ export const ProfileScreen: React.FC = () => {
         username,
         notification_radius: notificationRadius,
         notification_preferences: notificationPreferences,
+        ignore_opposite_direction: ignoreOppositeDirection,
       });
 
       if (error) {
@@ -142,6 +158,36 @@ export const ProfileScreen: React.FC = () => {
         </Card.Content>
       </Card>
 
+      {reputation && (
+        <Card style={styles.card}>
+          <Card.Content>
+            <Text style={styles.sectionTitle}>Reputation</Text>
+
+            <View style={styles.settingItem}>
+              <Text style={styles.settingLabel}>{getReputationLabel(reputation.reputation_score)}</Text>
+              <Text style={styles.settingValue}>{reputation.reputation_score}/100</Text>
+            </View>
+
+            <Text style={styles.reputationStats}>
+              👍 {reputation.confirmations} confirmations · 👎 {reputation.denials} denials
+            </Text>
+            <Text style={styles.reputationStats}>
+              ✅ {reputation.upheld_reports} reports upheld · ⚠️ {reputation.disputed_reports} disputed
+            </Text>
+            {reputation.moderator_adjustment !== 0 && (
+              <Text style={styles.reputationStats}>
+                🛡️ {reputation.moderator_adjustment > 0 ? '+' : ''}{reputation.moderator_adjustment} from moderators
+              </Text>
+            )}
+            {getReputationLevel(reputation.reputation_score) === 'low' && (
+              <Text style={styles.sliderDescription}>
+                Below {LOW_TRUST_REPUTATION}, your reports only notify other drivers once someone confirms them
+              </Text>
+            )}
+          </Card.Content>
+        </Card>
+      )}
+
       <Card style={styles.card}>
         <Card.Content>
           <Text style={styles.sectionTitle}>Notification Settings</Text>
@@ -166,94 +212,48 @@ export const ProfileScreen: React.FC = () => {
           <Text style={styles.sliderDescription}>
             You'll receive notifications for alerts within this radius
           </Text>
-        </Card.Content>
-      </Card>
 
-      <Card style={styles.card}>
-        <Card.Content>
-          <Text style={styles.sectionTitle}>Alert Types</Text>
-          
-          <List.Item
-            title="Police Checkpoints"
-            description="🚔 Receive alerts about police checkpoints"
-            left={() => <List.Icon icon="shield" />}
-            right={() => (
-              <Switch
-                value={notificationPreferences.police_checkpoints}
-                onValueChange={() => toggleNotificationPreference('police_checkpoints')}
-              />
-            )}
-          />
-          
-          <Divider />
-          
-          <List.Item
-            title="Accidents"
-            description="🚨 Receive alerts about accidents"
-            left={() => <List.Icon icon="car-emergency" />}
-            right={() => (
-              <Switch
-                value={notificationPreferences.accidents}
-                onValueChange={() => toggleNotificationPreference('accidents')}
-              />
-            )}
-          />
-          
-          <Divider />
-          
-          <List.Item
-            title="Road Hazards"
-            description="⚠️ Receive alerts about road hazards"
-            left={() => <List.Icon icon="alert" />}
-            right={() => (
-              <Switch
-                value={notificationPreferences.road_hazards}
-                onValueChange={() => toggleNotificationPreference('road_hazards')}
-              />
-            )}
-          />
-          
-          <Divider />
-          
-          <List.Item
-            title="Traffic Jams"
-            description="🚗 Receive alerts about traffic jams"
-            left={() => <List.Icon icon="car" />}
-            right={() => (
-              <Switch
-                value={notificationPreferences.traffic_jams}
-                onValueChange={() => toggleNotificationPreference('traffic_jams')}
-              />
-            )}
-          />
-          
-          <Divider />
-          
           <List.Item
-            title="Weather Alerts"
-            description="🌧️ Receive alerts about weather conditions"
-            left={() => <List.Icon icon="weather-rainy" />}
+            title="Ignore Opposite Direction"
+            description="While driving, skip alerts for reports that only affect traffic heading the other way"
+            descriptionNumberOfLines={3}
+            left={() => <List.Icon icon="swap-vertical" />}
             right={() => (
               <Switch
-                value={notificationPreferences.weather_alerts}
-                onValueChange={() => toggleNotificationPreference('weather_alerts')}
+                value={ignoreOppositeDirection}
+                onValueChange={setIgnoreOppositeDirection}
               />
             )}
+            style={styles.directionSetting}
           />
+        </Card.Content>
+      </Card>
+
+      <Card style={styles.card}>
+        <Card.Content>
+          <Text style={styles.sectionTitle}>Alert Types</Text>
           
-          <Divider />
-          
-          <List.Item
-            title="General Alerts"
-            description="📍 Receive general community alerts"
-            left={() => <List.Icon icon="information" />}
-            right={() => (
-              <Switch
-                value={notificationPreferences.general_alerts}
-                onValueChange={() => toggleNotificationPreference('general_alerts')}
-              />
-            )}
-          />
+          {REPORT_CATEGORIES.map((category, index) => {
+            const { preferenceKey, preferenceLabel, preferenceDescription, preferenceIcon } =
+              CATEGORY_REGISTRY[category];
+
+            return (
+              <React.Fragment key={category}>
+                {index > 0 && <Divider />}
+                <List.Item
+                  title={preferenceLabel}
+                  description={`${getCategoryIcon(category)} ${preferenceDescription}`}
+                  left={() => <List.Icon icon={preferenceIcon} />}
+                  right={() => (
+                    <Switch
+                      value={notificationPreferences[preferenceKey]}
+                      onValueChange={() => toggleNotificationPreference(preferenceKey)}
+                    />
+                  )}
+                />
+              </React.Fragment>
+            );
+          })}
         </Card.Content>
       </Card>
 
@@ -357,4 +357,12 @@ const styles = StyleSheet.create({
     color: '#666',
     textAlign: 'center',
   },
+  directionSetting: {
+    marginTop: 8,
+  },
+  reputationStats: {
+    fontSize: 14,
+    color: '#666',
+    marginBottom: 4,
+  },
 }); 
\ No newline at end of file
@@ -1,46 +1,171 @@
-import React from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { View, StyleSheet, ScrollView, Alert } from 'react-native';
-import { Text, Button, Card, Chip, Divider } from 'react-native-paper';
+import { Text, Button, Card, Chip, Divider, Portal, Modal } from 'react-native-paper';
 import { MaterialCommunityIcons } from '@expo/vector-icons';
-import { Report } from '../types';
+import { StackScreenProps } from '@react-navigation/stack';
+import { useIsFocused } from '@react-navigation/native';
+import { IncidentEvent, Report, ReportEdit, RootStackParamList } from '../types';
 import { LocationService } from '../services/locationService';
+import { SupabaseService } from '../services/supabase';
 import { useAuth } from '../contexts/AuthContext';
+import { ReportVoteButtons } from '../components/ReportVoteButtons';
+import { MediaGallery } from '../components/MediaGallery';
+import { AudioPlayer } from '../components/AudioPlayer';
+import { EditReportForm } from '../components/EditReportForm';
+import { ReportComments } from '../components/ReportComments';
+import { getCategoryIcon, getCategoryLabel } from '../utils/categories';
+import { getOriginalMedia, getVisualMedia } from '../utils/media';
+import { getReportDetailEntries } from '../utils/reportDetails';
+import { formatHeading, getRoadSideLabel } from '../utils/direction';
+import { getIncidentEventIcon, getIncidentEventLabel } from '../utils/incidents';
+import { getReputationLabel, isTrustedReporter } from '../utils/reputation';
 
-interface ReportDetailScreenProps {
-  route: {
-    params: {
-      report: Report;
-    };
-  };
-  navigation: any;
-}
+type ReportDetailScreenProps = StackScreenProps<RootStackParamList, 'ReportDetail'>;
 
 export const ReportDetailScreen: React.FC<ReportDetailScreenProps> = ({ route, navigation }) => {
-  const { report } = route.params;
+  const [report, setReport] = useState<Report>(route.params.report);
+  const [mergedReports, setMergedReports] = useState<Report[]>([]);
+  const [history, setHistory] = useState<IncidentEvent[]>([]);
+  const [edits, setEdits] = useState<ReportEdit[]>([]);
+  const [editModalVisible, setEditModalVisible] = useState(false);
+  const [changingStatus, setChangingStatus] = useState(false);
+  const deletedRef = useRef(false);
   const { appUser } = useAuth();
+  const isFocused = useIsFocused();
+  const reporterCount = report.reporter_count ?? 1;
+  const canEdit = appUser?.id === report.user_id && (report.status === 'active' || report.status === 'merged');
+
+  const updateCount = history.filter(event => event.event_type === 'update').length;
+
+  // Duplicates and updates merged into this incident contribute their media and reporters
+  const mediaFiles = [
+    ...(report.media_files ?? []),
+    ...mergedReports.flatMap(merged => merged.media_files ?? []),
+  ];
+  const visualMedia = getVisualMedia(mediaFiles);
+  const audioMedia = getOriginalMedia(mediaFiles).filter(media => media.file_type === 'audio');
+  const detailEntries = getReportDetailEntries(report);
+  const otherReporters = Array.from(new Set(
+    mergedReports
+      .filter(merged => merged.user_id !== report.user_id)
+      .map(merged => merged.user?.username || 'Anonymous')
+  ));
+
+  useEffect(() => {
+    SupabaseService.getMergedReports(report.id).then(({ data }) => {
+      if (data) {
+        setMergedReports(data);
+      }
+    });
+  }, [report.id, reporterCount, updateCount]);
+
+  useEffect(() => {
+    SupabaseService.getReportEdits(report.id).then(({ data }) => {
+      if (data) {
+        setEdits(data);
+      }
+    });
+  }, [report.id, report.edited_at, report.status]);
+
+  // Follow the author's edits, resolution or deletion while the screen is open
+  useEffect(() => {
+    const reportId = report.id;
+    const channel = SupabaseService.subscribeToReports(payload => {
+      if (payload.eventType === 'DELETE' && payload.old?.id === reportId) {
+        if (!deletedRef.current) {
+          deletedRef.current = true;
+          Alert.alert('Report Removed', 'This report was deleted by its author.');
+          navigation.goBack();
+        }
+      } else if (payload.eventType === 'UPDATE' && payload.new?.id === reportId) {
+        refreshReport(payload.new as Report);
+      }
+    }, `report_${reportId}`);
 
-  const getCategoryIcon = (category: string) => {
-    const icons: { [key: string]: string } = {
-      police_checkpoint: '🚔',
-      accident: '🚨',
-      road_hazard: '⚠️',
-      traffic_jam: '🚗',
-      weather_alert: '🌧️',
-      general: '📍',
+    return () => {
+      channel.unsubscribe();
     };
-    return icons[category] || '📍';
-  };
+  }, [report.id]);
+
+  useEffect(() => {
+    const incidentId = report.incident_id;
+    if (!incidentId) return;
+
+    SupabaseService.getIncidentEvents([incidentId]).then(({ data }) => {
+      if (data) {
+        setHistory(data);
+      }
+    });
 
-  const getCategoryLabel = (category: string) => {
-    const labels: { [key: string]: string } = {
-      police_checkpoint: 'Police Checkpoint',
-      accident: 'Accident',
-      road_hazard: 'Road Hazard',
-      traffic_jam: 'Traffic Jam',
-      weather_alert: 'Weather Alert',
-      general: 'General',
+    const channel = SupabaseService.subscribeToIncidentEvents(event => {
+      if (event.incident_id === incidentId) {
+        setHistory(prev => prev.some(existing => existing.id === event.id) ? prev : [...prev, event]);
+      }
+    }, `incident_events_${incidentId}`);
+
+    return () => {
+      channel.unsubscribe();
     };
-    return labels[category] || 'General';
+  }, [report.incident_id]);
+
+  // The RPCs return the bare row, so fetch it again with its author and media
+  const refreshReport = async (updated: Report) => {
+    const { data } = await SupabaseService.getReportById(updated.id);
+    setReport(prev => data ?? { ...prev, ...updated, user: prev.user, media_files: prev.media_files });
+  };
+
+  const resolveReport = () => {
+    Alert.alert('Mark Resolved', 'Let other drivers know this is no longer there?', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Mark Resolved',
+        onPress: async () => {
+          setChangingStatus(true);
+          const { data, error } = await SupabaseService.resolveReport(report.id);
+          setChangingStatus(false);
+          if (error || !data) {
+            Alert.alert('Error', error?.message || 'Failed to resolve report');
+            return;
+          }
+          refreshReport(data);
+        },
+      },
+    ]);
+  };
+
+  const deleteReport = () => {
+    Alert.alert('Delete Report', 'This removes the report and its photos for everyone. Continue?', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          setChangingStatus(true);
+          deletedRef.current = true;
+          const { error } = await SupabaseService.deleteReport(report.id);
+          setChangingStatus(false);
+          if (error) {
+            deletedRef.current = false;
+            Alert.alert('Error', error.message || 'Failed to delete report');
+            return;
+          }
+          navigation.goBack();
+        },
+      },
+    ]);
+  };
+
+  const getEditLabel = (edit: ReportEdit) => {
+    switch (edit.edit_type) {
+      case 'description':
+        return 'Changed the description';
+      case 'media_added':
+        return `Added a ${edit.new_value ?? 'file'}`;
+      case 'media_removed':
+        return `Removed a ${edit.old_value ?? 'file'}`;
+      case 'resolved':
+        return 'Marked as resolved';
+    }
   };
 
   const getStatusColor = (status: string) => {
@@ -51,6 +176,8 @@ export const ReportDetailScreen: React.FC<ReportDetailScreenProps> = ({ route, n
         return '#2196F3';
       case 'expired':
         return '#FF9800';
+      case 'merged':
+        return '#9C27B0';
       default:
         return '#666';
     }
@@ -98,15 +225,43 @@ export const ReportDetailScreen: React.FC<ReportDetailScreenProps> = ({ route, n
               </Chip>
             </View>
             <Text style={styles.categoryLabel}>{getCategoryLabel(report.category)}</Text>
+            {isTrustedReporter(report.user) && (
+              <Chip icon="shield-check" compact style={styles.trustedChip} textStyle={styles.trusted}>
+                Trusted reporter
+              </Chip>
+            )}
+            {reporterCount > 1 && (
+              <Text style={styles.reporters}>👥 Reported by {reporterCount} people</Text>
+            )}
           </View>
 
           <Divider style={styles.divider} />
 
           <View style={styles.section}>
-            <Text style={styles.sectionTitle}>Description</Text>
+            <Text style={styles.sectionTitle}>
+              Description
+              {report.edited_at ? <Text style={styles.edited}> (edited)</Text> : null}
+            </Text>
             <Text style={styles.description}>{report.description}</Text>
           </View>
 
+          {detailEntries.length > 0 && (
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>{getCategoryLabel(report.category)} Details</Text>
+              {detailEntries.map(entry => (
+                <View key={entry.key} style={styles.detailRow}>
+                  <Text style={styles.detailLabel}>{entry.label}:</Text>
+                  <Text style={styles.detailValue}>{entry.value}</Text>
+                </View>
+              ))}
+            </View>
+          )}
+
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Is it still there?</Text>
+            <ReportVoteButtons report={report} onVoted={setReport} />
+          </View>
+
           <View style={styles.section}>
             <Text style={styles.sectionTitle}>Location</Text>
             <View style={styles.locationInfo}>
@@ -121,6 +276,22 @@ export const ReportDetailScreen: React.FC<ReportDetailScreenProps> = ({ route, n
                 <Text style={styles.distanceText}>{calculateDistance()}</Text>
               </View>
             )}
+            {(report.heading != null || report.road_side) && (
+              <View style={styles.distanceInfo}>
+                <MaterialCommunityIcons
+                  name="navigation"
+                  size={16}
+                  color="#666"
+                  style={{ transform: [{ rotate: `${report.heading ?? 0}deg` }] }}
+                />
+                <Text style={styles.distanceText}>
+                  {[
+                    report.heading != null ? formatHeading(report.heading) : null,
+                    report.road_side ? getRoadSideLabel(report.road_side) : null,
+                  ].filter(Boolean).join(', ')}
+                </Text>
+              </View>
+            )}
           </View>
 
           <View style={styles.section}>
@@ -131,6 +302,25 @@ export const ReportDetailScreen: React.FC<ReportDetailScreenProps> = ({ route, n
                 {report.user?.username || 'Anonymous'}
               </Text>
             </View>
+            {report.user?.reputation_score != null && (
+              <View style={styles.detailRow}>
+                <Text style={styles.detailLabel}>Reputation:</Text>
+                <Text style={[styles.detailValue, isTrustedReporter(report.user) && styles.trusted]}>
+                  {isTrustedReporter(report.user) ? '✔ ' : ''}
+                  {getReputationLabel(report.user.reputation_score)} ({report.user.reputation_score}/100)
+                </Text>
+              </View>
+            )}
+            {reporterCount > 1 && (
+              <View style={styles.detailRow}>
+                <Text style={styles.detailLabel}>Also reported by:</Text>
+                <Text style={styles.detailValue}>
+                  {otherReporters.length > 0
+                    ? otherReporters.join(', ')
+                    : `${reporterCount - 1} ${reporterCount === 2 ? 'other' : 'others'}`}
+                </Text>
+              </View>
+            )}
             <View style={styles.detailRow}>
               <Text style={styles.detailLabel}>Reported at:</Text>
               <Text style={styles.detailValue}>
@@ -143,20 +333,128 @@ export const ReportDetailScreen: React.FC<ReportDetailScreenProps> = ({ route, n
                 {formatTimestamp(report.updated_at)}
               </Text>
             </View>
+            {report.edited_at && (
+              <View style={styles.detailRow}>
+                <Text style={styles.detailLabel}>Edited at:</Text>
+                <Text style={styles.detailValue}>
+                  {formatTimestamp(report.edited_at)}
+                </Text>
+              </View>
+            )}
           </View>
 
-          {report.media_files && report.media_files.length > 0 && (
+          {history.length > 0 && (
             <View style={styles.section}>
-              <Text style={styles.sectionTitle}>Media Files</Text>
-              <Text style={styles.mediaCount}>
-                {report.media_files.length} file(s) attached
-              </Text>
+              <Text style={styles.sectionTitle}>Incident History</Text>
+              {history.map(event => (
+                <View key={event.id} style={styles.historyRow}>
+                  <Text style={styles.historyIcon}>{getIncidentEventIcon(event.event_type)}</Text>
+                  <View style={styles.historyContent}>
+                    <Text style={styles.historyTitle}>
+                      {getIncidentEventLabel(event.event_type)}
+                      {event.user?.username ? ` · ${event.user.username}` : ''}
+                    </Text>
+                    {event.description && event.event_type !== 'reported' ? (
+                      <Text style={styles.historyDescription}>{event.description}</Text>
+                    ) : null}
+                    <Text style={styles.historyTime}>{formatTimestamp(event.created_at)}</Text>
+                  </View>
+                </View>
+              ))}
+              {report.status === 'active' && appUser && (
+                <Button
+                  mode="outlined"
+                  icon="message-plus-outline"
+                  onPress={() => navigation.navigate('NewReport', { updateOf: report })}
+                  style={styles.updateButton}
+                >
+                  Post Update
+                </Button>
+              )}
+            </View>
+          )}
+
+          {edits.length > 0 && (
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>Edit History</Text>
+              {edits.map(edit => (
+                <View key={edit.id} style={styles.historyRow}>
+                  <Text style={styles.historyIcon}>✏️</Text>
+                  <View style={styles.historyContent}>
+                    <Text style={styles.historyTitle}>{getEditLabel(edit)}</Text>
+                    {edit.edit_type === 'description' && edit.old_value ? (
+                      <Text style={styles.previousValue}>{edit.old_value}</Text>
+                    ) : null}
+                    <Text style={styles.historyTime}>{formatTimestamp(edit.created_at)}</Text>
+                  </View>
+                </View>
+              ))}
+            </View>
+          )}
+
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>
+              Comments{(report.comment_count ?? 0) > 0 ? ` (${report.comment_count})` : ''}
+            </Text>
+            <ReportComments
+              reportId={report.id}
+              canComment={report.status === 'active' || report.status === 'merged'}
+            />
+          </View>
+
+          {visualMedia.length > 0 && (
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>Photos & Videos</Text>
+              <MediaGallery media={visualMedia} />
+            </View>
+          )}
+
+          {audioMedia.length > 0 && (
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>Voice Message</Text>
+              {audioMedia.map(media => (
+                <AudioPlayer key={media.id} uri={media.file_url} isActive={isFocused} style={styles.audioPlayer} />
+              ))}
             </View>
           )}
         </Card.Content>
       </Card>
 
       <View style={styles.buttonContainer}>
+        {canEdit && (
+          <View style={styles.ownerActions}>
+            <Button
+              mode="outlined"
+              icon="pencil"
+              onPress={() => setEditModalVisible(true)}
+              disabled={changingStatus}
+              style={styles.ownerButton}
+            >
+              Edit
+            </Button>
+            {report.status === 'active' && (
+              <Button
+                mode="outlined"
+                icon="check-circle-outline"
+                onPress={resolveReport}
+                disabled={changingStatus}
+                style={styles.ownerButton}
+              >
+                Resolve
+              </Button>
+            )}
+            <Button
+              mode="outlined"
+              icon="delete-outline"
+              textColor="#F44336"
+              onPress={deleteReport}
+              disabled={changingStatus}
+              style={styles.ownerButton}
+            >
+              Delete
+            </Button>
+          </View>
+        )}
         <Button
           mode="contained"
           onPress={() => navigation.goBack()}
@@ -165,6 +463,26 @@ export const ReportDetailScreen: React.FC<ReportDetailScreenProps> = ({ route, n
           Back to Timeline
         </Button>
       </View>
+
+      <Portal>
+        <Modal
+          visible={editModalVisible}
+          onDismiss={() => setEditModalVisible(false)}
+          contentContainerStyle={styles.modalContainer}
+        >
+          <Text style={styles.modalTitle}>Edit Report</Text>
+          {editModalVisible && (
+            <EditReportForm
+              report={report}
+              onSaved={(edited) => {
+                setEditModalVisible(false);
+                refreshReport(edited);
+              }}
+              onCancel={() => setEditModalVisible(false)}
+            />
+          )}
+        </Modal>
+      </Portal>
     </ScrollView>
   );
 };
@@ -203,6 +521,19 @@ const styles = StyleSheet.create({
     fontWeight: 'bold',
     color: '#333',
   },
+  trustedChip: {
+    marginTop: 6,
+    backgroundColor: '#E8F5E9',
+  },
+  trusted: {
+    color: '#2E7D32',
+    fontWeight: '600',
+  },
+  reporters: {
+    fontSize: 14,
+    color: '#0066FF',
+    marginTop: 4,
+  },
   divider: {
     marginVertical: 16,
   },
@@ -253,10 +584,69 @@ const styles = StyleSheet.create({
     fontSize: 14,
     color: '#333',
   },
-  mediaCount: {
+  audioPlayer: {
+    marginBottom: 8,
+  },
+  historyRow: {
+    flexDirection: 'row',
+    marginBottom: 12,
+  },
+  historyIcon: {
+    fontSize: 16,
+    width: 28,
+  },
+  historyContent: {
+    flex: 1,
+  },
+  historyTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+  },
+  historyDescription: {
     fontSize: 14,
-    color: '#666',
-    fontStyle: 'italic',
+    color: '#333',
+    marginTop: 2,
+  },
+  historyTime: {
+    fontSize: 12,
+    color: '#999',
+    marginTop: 2,
+  },
+  updateButton: {
+    marginTop: 4,
+  },
+  edited: {
+    fontSize: 12,
+    fontWeight: 'normal',
+    color: '#999',
+  },
+  previousValue: {
+    fontSize: 14,
+    color: '#999',
+    textDecorationLine: 'line-through',
+    marginTop: 2,
+  },
+  ownerActions: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 12,
+  },
+  ownerButton: {
+    flex: 1,
+    marginHorizontal: 4,
+  },
+  modalContainer: {
+    backgroundColor: 'white',
+    padding: 20,
+    margin: 20,
+    borderRadius: 8,
+    maxHeight: '85%',
+  },
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    marginBottom: 12,
   },
   buttonContainer: {
     padding: 16,
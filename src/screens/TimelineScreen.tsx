@@ -1,21 +1,70 @@
-import React, { useState, useEffect, useRef } from 'react';
-import { View, StyleSheet, FlatList, RefreshControl, ActivityIndicator } from 'react-native';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { View, StyleSheet, FlatList, RefreshControl, ActivityIndicator, Alert } from 'react-native';
 import { Text, Chip, FAB, Snackbar } from 'react-native-paper';
 import { TimelineBranch } from '../components/TimelineBranch';
-import { Report, ReportCategory } from '../types';
+import {
+  IncidentEvent,
+  PendingReport,
+  PendingReportState,
+  Report,
+  ReportCategory,
+  ReportDetails,
+  User,
+} from '../types';
 import { SupabaseService } from '../services/supabase';
+import { reportQueueService } from '../services/reportQueueService';
 import { LocationService } from '../services/locationService';
 import { useAuth } from '../contexts/AuthContext';
+import { CATEGORY_REGISTRY, REPORT_CATEGORIES, getCategoryColor, getCategoryIcon } from '../utils/categories';
+import { getReportFields, matchesDetailFilters } from '../utils/reportDetails';
+import { getIncidentUpdates, groupIncidentEvents } from '../utils/incidents';
+import { getTimelineRank } from '../utils/reputation';
 
 interface TimelineScreenProps {
   navigation: any;
 }
 
+interface TimelineItem {
+  report: Report;
+  pendingState?: PendingReportState;
+}
+
+// Show a queued report in the timeline until the server has it
+const toTimelineReport = (pending: PendingReport, author: User | null): Report => ({
+  id: pending.id,
+  user_id: pending.user_id,
+  category: pending.category,
+  description: pending.description,
+  details: pending.details,
+  latitude: pending.latitude,
+  longitude: pending.longitude,
+  heading: pending.heading,
+  road_side: pending.road_side,
+  geometry: pending.geometry,
+  report_timestamp: pending.report_timestamp,
+  status: 'active',
+  created_at: pending.report_timestamp,
+  updated_at: pending.report_timestamp,
+  user: author ? { id: author.id, username: author.username, avatar_url: author.avatar_url } : null,
+  media_files: pending.media.map((media, index) => ({
+    id: `${pending.id}_${index}`,
+    report_id: pending.id,
+    file_type: media.file_type,
+    file_url: media.uri,
+    file_name: media.file_name,
+    variant: 'original' as const,
+    created_at: pending.report_timestamp,
+  })),
+});
+
 export const TimelineScreen: React.FC<TimelineScreenProps> = ({ navigation }) => {
   const { appUser } = useAuth();
   const [reports, setReports] = useState<Report[]>([]);
   const [filteredReports, setFilteredReports] = useState<Report[]>([]);
+  const [pendingReports, setPendingReports] = useState<PendingReport[]>([]);
+  const [incidentEvents, setIncidentEvents] = useState<Record<string, IncidentEvent[]>>({});
   const [selectedCategories, setSelectedCategories] = useState<ReportCategory[]>([]);
+  const [detailFilters, setDetailFilters] = useState<ReportDetails>({});
   const [userLocation, setUserLocation] = useState<{ latitude: number; longitude: number } | null>(null);
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
@@ -26,46 +75,43 @@ export const TimelineScreen: React.FC<TimelineScreenProps> = ({ navigation }) =>
   const [snackbarVisible, setSnackbarVisible] = useState(false);
 
   const subscriptionRef = useRef<any>(null);
-
-  const getCategoryColor = (category: ReportCategory): string => {
-    switch (category) {
-      case 'police_checkpoint':
-        return '#1E40AF';
-      case 'accident':
-        return '#DC2626';
-      case 'road_hazard':
-        return '#D97706';
-      case 'traffic_jam':
-        return '#7C2D12';
-      case 'weather_alert':
-        return '#0F766E';
-      case 'general':
-        return '#374151';
-      default:
-        return '#374151';
-    }
-  };
-
-  const categories: { category: ReportCategory; label: string; icon: string; color: string }[] = [
-    { category: 'police_checkpoint', label: 'Police', icon: '🚔', color: getCategoryColor('police_checkpoint') },
-    { category: 'accident', label: 'Accident', icon: '🚨', color: getCategoryColor('accident') },
-    { category: 'road_hazard', label: 'Hazard', icon: '⚠️', color: getCategoryColor('road_hazard') },
-    { category: 'traffic_jam', label: 'Traffic', icon: '🚦', color: getCategoryColor('traffic_jam') },
-    { category: 'weather_alert', label: 'Weather', icon: '🌧️', color: getCategoryColor('weather_alert') },
-    { category: 'general', label: 'General', icon: '📍', color: getCategoryColor('general') },
-  ];
+  const eventsSubscriptionRef = useRef<any>(null);
 
   useEffect(() => {
     initializeScreen();
     setupRealtimeSubscription();
 
+    // New updates are added under their report as they happen
+    eventsSubscriptionRef.current = SupabaseService.subscribeToIncidentEvents(event => {
+      setIncidentEvents(prev => prev[event.incident_id]
+        ? { ...prev, [event.incident_id]: [...prev[event.incident_id], event] }
+        : prev
+      );
+    }, 'timeline_incident_events');
+
     return () => {
       if (subscriptionRef.current) {
         subscriptionRef.current.unsubscribe();
       }
+      eventsSubscriptionRef.current?.unsubscribe();
     };
   }, []);
 
+  const incidentIds = useMemo(
+    () => reports.map(report => report.incident_id).filter((id): id is string => !!id).sort().join(','),
+    [reports]
+  );
+
+  useEffect(() => {
+    if (!incidentIds) return;
+
+    SupabaseService.getIncidentEvents(incidentIds.split(',')).then(({ data }) => {
+      if (data) {
+        setIncidentEvents(groupIncidentEvents(data));
+      }
+    });
+  }, [incidentIds]);
+
   useEffect(() => {
     if (appUser) {
       setOffset(0);
@@ -75,7 +121,41 @@ export const TimelineScreen: React.FC<TimelineScreenProps> = ({ navigation }) =>
 
   useEffect(() => {
     filterReports();
-  }, [reports, selectedCategories, userLocation]);
+  }, [reports, selectedCategories, detailFilters, userLocation]);
+
+  useEffect(() => {
+    return reportQueueService.subscribe(setPendingReports);
+  }, []);
+
+  // Reports still in the offline queue are listed first
+  const timelineItems = useMemo((): TimelineItem[] => {
+    const pendingItems = pendingReports
+      .filter(pending => selectedCategories.length === 0 || selectedCategories.includes(pending.category))
+      .filter(pending => matchesDetailFilters(pending, detailFilters))
+      .map(pending => ({
+        report: toTimelineReport(pending, appUser),
+        pendingState: pending.state,
+      }));
+    const pendingIds = new Set(pendingReports.map(pending => pending.id));
+
+    return [
+      ...pendingItems,
+      ...filteredReports
+        .filter(report => !pendingIds.has(report.id))
+        .map(report => ({ report })),
+    ];
+  }, [pendingReports, filteredReports, selectedCategories, detailFilters, appUser]);
+
+  // Detail filters are offered once a single category with choice fields is selected
+  const detailFilterOptions = useMemo(() => {
+    if (selectedCategories.length !== 1) return [];
+
+    return getReportFields(selectedCategories[0]).flatMap(field =>
+      field.type === 'select'
+        ? field.options.map(option => ({ field, option }))
+        : []
+    );
+  }, [selectedCategories]);
 
   const initializeScreen = async () => {
     await Promise.all([
@@ -139,7 +219,8 @@ export const TimelineScreen: React.FC<TimelineScreenProps> = ({ navigation }) =>
             console.error('Error fetching new report:', error);
             return;
           }
-          if (newReport) {
+          // Merged duplicates show up as an update to their incident
+          if (newReport && newReport.status !== 'merged') {
             setReports(prev => {
               const exists = prev.some(r => r.id === newReport.id);
               if (exists) return prev;
@@ -162,9 +243,11 @@ export const TimelineScreen: React.FC<TimelineScreenProps> = ({ navigation }) =>
           }
 
           if (updatedReport) {
-            if (updatedReport.status === 'expired') {
+            if (updatedReport.status !== 'active') {
               setReports(prev => prev.filter(report => report.id !== updatedReport.id));
-              setNewReportNotification('Report expired and removed');
+              setNewReportNotification(
+                updatedReport.status === 'resolved' ? 'Report resolved and removed' : 'Report expired and removed'
+              );
               setSnackbarVisible(true);
             } else {
               setReports(prev =>
@@ -202,6 +285,10 @@ export const TimelineScreen: React.FC<TimelineScreenProps> = ({ navigation }) =>
       );
     }
 
+    if (Object.keys(detailFilters).length > 0) {
+      filtered = filtered.filter(report => matchesDetailFilters(report, detailFilters));
+    }
+
     if (userLocation && appUser) {
       filtered = filtered.filter(report => 
         LocationService.isWithinRadius(
@@ -214,7 +301,8 @@ export const TimelineScreen: React.FC<TimelineScreenProps> = ({ navigation }) =>
       );
     }
 
-    setFilteredReports(filtered);
+    // Trusted reporters' reports rank above slightly newer ones
+    setFilteredReports([...filtered].sort((a, b) => getTimelineRank(b) - getTimelineRank(a)));
   };
 
   const toggleCategory = (category: ReportCategory) => {
@@ -223,6 +311,19 @@ export const TimelineScreen: React.FC<TimelineScreenProps> = ({ navigation }) =>
         ? prev.filter(c => c !== category)
         : [...prev, category]
     );
+    setDetailFilters({});
+  };
+
+  const toggleDetailFilter = (key: string, value: string) => {
+    setDetailFilters(prev => {
+      const next = { ...prev };
+      if (next[key] === value) {
+        delete next[key];
+      } else {
+        next[key] = value;
+      }
+      return next;
+    });
   };
 
   const onRefresh = async () => {
@@ -251,9 +352,33 @@ export const TimelineScreen: React.FC<TimelineScreenProps> = ({ navigation }) =>
   };
 
   const handleReportPress = (report: Report) => {
+    const pending = pendingReports.find(p => p.id === report.id);
+    if (pending) {
+      handlePendingReportPress(pending);
+      return;
+    }
+
     navigation.navigate('ReportDetail', { report });
   };
 
+  const handlePendingReportPress = (pending: PendingReport) => {
+    Alert.alert(
+      pending.state === 'failed' ? 'Report Failed' : 'Waiting to Send',
+      pending.state === 'failed'
+        ? `This report could not be submitted: ${pending.last_error || 'Unknown error'}`
+        : 'This report will be sent automatically when you are back online.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Discard',
+          style: 'destructive',
+          onPress: () => reportQueueService.discard(pending.id),
+        },
+        { text: 'Retry Now', onPress: () => reportQueueService.retry(pending.id) },
+      ]
+    );
+  };
+
   const handleNewReport = () => {
     navigation.navigate('NewReport');
   };
@@ -272,44 +397,66 @@ export const TimelineScreen: React.FC<TimelineScreenProps> = ({ navigation }) =>
       <View style={styles.filterSection}>
         <FlatList
           horizontal
-          data={categories}
-          keyExtractor={(item) => item.category}
+          data={REPORT_CATEGORIES}
+          keyExtractor={(item) => item}
           renderItem={({ item }) => (
             <Chip
-              mode={selectedCategories.includes(item.category) ? 'flat' : 'outlined'}
-              selected={selectedCategories.includes(item.category)}
-              onPress={() => toggleCategory(item.category)}
+              mode={selectedCategories.includes(item) ? 'flat' : 'outlined'}
+              selected={selectedCategories.includes(item)}
+              onPress={() => toggleCategory(item)}
               style={[
                 styles.filterChip,
-                selectedCategories.includes(item.category) && {
-                  backgroundColor: item.color,
+                selectedCategories.includes(item) && {
+                  backgroundColor: getCategoryColor(item),
                 }
               ]}
               textStyle={[
                 styles.filterChipText,
-                selectedCategories.includes(item.category) && {
+                selectedCategories.includes(item) && {
                   color: 'white',
                 }
               ]}
             >
-              {item.icon} {item.label}
+              {getCategoryIcon(item)} {CATEGORY_REGISTRY[item].shortLabel}
             </Chip>
           )}
           showsHorizontalScrollIndicator={false}
           contentContainerStyle={styles.filterList}
         />
+        {detailFilterOptions.length > 0 && (
+          <FlatList
+            horizontal
+            data={detailFilterOptions}
+            keyExtractor={({ field, option }) => `${field.key}-${option.value}`}
+            renderItem={({ item: { field, option } }) => (
+              <Chip
+                compact
+                mode={detailFilters[field.key] === option.value ? 'flat' : 'outlined'}
+                selected={detailFilters[field.key] === option.value}
+                onPress={() => toggleDetailFilter(field.key, option.value)}
+                style={styles.detailFilterChip}
+              >
+                {field.label}: {option.label}
+              </Chip>
+            )}
+            showsHorizontalScrollIndicator={false}
+            contentContainerStyle={styles.detailFilterList}
+          />
+        )}
       </View>
 
       <FlatList
-        data={filteredReports}
-        keyExtractor={(item) => item.id}
+        data={timelineItems}
+        keyExtractor={(item) => item.report.id}
         renderItem={({ item, index }) => (
           <TimelineBranch
-            report={item}
+            report={item.report}
             onPress={handleReportPress}
             isLeft={index % 2 === 1}
             isFirst={index === 0}
-            isLast={index === filteredReports.length - 1}
+            isLast={index === timelineItems.length - 1}
+            pendingState={item.pendingState}
+            updates={item.report.incident_id ? getIncidentUpdates(incidentEvents[item.report.incident_id]) : []}
           />
         )}
         refreshControl={
@@ -406,6 +553,12 @@ const styles = StyleSheet.create({
     fontSize: 14,
     fontWeight: '500',
   },
+  detailFilterList: {
+    paddingHorizontal: 16,
+  },
+  detailFilterChip: {
+    marginRight: 8,
+  },
   reportsList: {
     paddingBottom: 80,
     paddingTop: 8,
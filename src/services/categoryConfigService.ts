@@ -0,0 +1,62 @@
+import * as FileSystem from 'expo-file-system';
+import { SupabaseService } from './supabase';
+import { CategoryConfig, ReportCategory } from '../types';
+import { getCategoryConfig, setCategoryConfigOverrides } from '../utils/categories';
+
+const CACHE_FILE = FileSystem.documentDirectory
+  ? `${FileSystem.documentDirectory}category_config.json`
+  : null;
+
+export class CategoryConfigService {
+  /**
+   * Load the category config from Supabase, falling back to the local cache
+   */
+  static async load(): Promise<void> {
+    const { data, error } = await SupabaseService.getCategoryConfig();
+
+    if (error || !data || data.length === 0) {
+      console.log('⚙️ Category config unavailable, using cached values');
+      await this.loadFromCache();
+      return;
+    }
+
+    setCategoryConfigOverrides(data);
+    console.log(`✅ Loaded config for ${data.length} categories`);
+    await this.saveToCache(data);
+  }
+
+  /**
+   * Get the config for a category (database values over registry defaults)
+   */
+  static getConfig(category: ReportCategory): CategoryConfig {
+    return getCategoryConfig(category);
+  }
+
+  static isEnabled(category: ReportCategory): boolean {
+    return this.getConfig(category).enabled;
+  }
+
+  private static async loadFromCache(): Promise<void> {
+    if (!CACHE_FILE) return;
+
+    try {
+      const info = await FileSystem.getInfoAsync(CACHE_FILE);
+      if (!info.exists) return;
+
+      const cached = await FileSystem.readAsStringAsync(CACHE_FILE);
+      setCategoryConfigOverrides(JSON.parse(cached));
+    } catch (error) {
+      console.error('Error reading cached category config:', error);
+    }
+  }
+
+  private static async saveToCache(rows: CategoryConfig[]): Promise<void> {
+    if (!CACHE_FILE) return;
+
+    try {
+      await FileSystem.writeAsStringAsync(CACHE_FILE, JSON.stringify(rows));
+    } catch (error) {
+      console.error('Error caching category config:', error);
+    }
+  }
+}
@@ -1,5 +1,10 @@
 import { supabase } from './supabase';
 import { SupabaseService } from './supabase';
+import { REPORT_CATEGORIES, getDefaultNotificationPreferences } from '../utils/categories';
+
+// Category defaults and constraints generated from the category registry
+const DEFAULT_PREFERENCES_SQL = JSON.stringify(getDefaultNotificationPreferences());
+const CATEGORY_LIST_SQL = REPORT_CATEGORIES.map(category => `'${category}'`).join(', ');
 
 export class DatabaseInit {
   static async initializeDatabase() {
@@ -109,7 +114,7 @@ export class DatabaseInit {
             username TEXT,
             avatar_url TEXT,
             notification_radius INTEGER DEFAULT 5000,
-            notification_preferences JSONB DEFAULT '{"police_checkpoints": true, "accidents": true, "road_hazards": true, "traffic_jams": true, "weather_alerts": true, "general_alerts": true}',
+            notification_preferences JSONB DEFAULT '${DEFAULT_PREFERENCES_SQL}',
             created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
             updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
         );
@@ -118,7 +123,7 @@ export class DatabaseInit {
         CREATE TABLE IF NOT EXISTS public.reports (
             id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
             user_id UUID REFERENCES public.users(id) ON DELETE CASCADE NOT NULL,
-            category TEXT NOT NULL CHECK (category IN ('police_checkpoint', 'accident', 'road_hazard', 'traffic_jam', 'weather_alert', 'general')),
+            category TEXT NOT NULL CHECK (category IN (${CATEGORY_LIST_SQL})),
             description TEXT NOT NULL,
             latitude DOUBLE PRECISION NOT NULL,
             longitude DOUBLE PRECISION NOT NULL,
@@ -2,6 +2,8 @@ import * as Location from 'expo-location';
 import { Location as LocationType } from '../types';
 
 export class LocationService {
+  private static readonly MIN_COURSE_SPEED = 2; // meters per second, about 7 km/h
+
   static async requestLocationPermission(): Promise<boolean> {
     const { status } = await Location.requestForegroundPermissionsAsync();
     return status === 'granted';
@@ -29,6 +31,8 @@ export class LocationService {
         latitude: location.coords.latitude,
         longitude: location.coords.longitude,
         accuracy: location.coords.accuracy,
+        heading: location.coords.heading,
+        speed: location.coords.speed,
       };
     } catch (error) {
       console.error('Error getting current location:', error);
@@ -56,6 +60,8 @@ export class LocationService {
           latitude: location.coords.latitude,
           longitude: location.coords.longitude,
           accuracy: location.coords.accuracy,
+          heading: location.coords.heading,
+          speed: location.coords.speed,
         });
       }
     );
@@ -92,6 +98,22 @@ export class LocationService {
     return distance <= radius;
   }
 
+  /**
+   * Direction of travel in degrees, or null when the device isn't moving fast
+   * enough for its reported course to be reliable
+   */
+  static getCourse(location: LocationType): number | null {
+    if (location.heading == null || location.heading < 0) return null;
+    if (location.speed == null || location.speed < this.MIN_COURSE_SPEED) return null;
+    return location.heading;
+  }
+
+  // Smallest angle between two headings, 0-180 degrees
+  static headingDifference(a: number, b: number): number {
+    const difference = Math.abs(a - b) % 360;
+    return difference > 180 ? 360 - difference : difference;
+  }
+
   static formatDistance(meters: number): string {
     if (meters < 1000) {
       return `${Math.round(meters)}m`;
@@ -113,6 +135,10 @@ export class LocationService {
     }
   }
 
+  static formatAddress(address: Location.LocationGeocodedAddress): string {
+    return `${address.street || ''} ${address.city || ''} ${address.region || ''}`.trim();
+  }
+
   static async geocode(address: string) {
     try {
       const results = await Location.geocodeAsync(address);
@@ -0,0 +1,73 @@
+import * as Crypto from 'expo-crypto';
+import * as FileSystem from 'expo-file-system';
+
+const CACHE_DIRECTORY = FileSystem.cacheDirectory
+  ? `${FileSystem.cacheDirectory}media/`
+  : null;
+
+/**
+ * Keeps local copies of remote media so it only has to be downloaded once.
+ * The OS may clear the cache directory at any time; callers fall back to the remote URL.
+ */
+export class MediaCacheService {
+  private static downloads = new Map<string, Promise<string | null>>();
+
+  /**
+   * Local URI for a cached file, or null if it hasn't been downloaded yet
+   */
+  static async getCachedUri(url: string): Promise<string | null> {
+    const path = await this.getCachePath(url);
+    if (!path) return null;
+
+    try {
+      const info = await FileSystem.getInfoAsync(path);
+      return info.exists ? path : null;
+    } catch (error) {
+      return null;
+    }
+  }
+
+  /**
+   * Download a file into the cache, sharing in-flight downloads of the same URL
+   */
+  static cache(url: string): Promise<string | null> {
+    const inFlight = this.downloads.get(url);
+    if (inFlight) return inFlight;
+
+    const download = this.download(url).finally(() => {
+      this.downloads.delete(url);
+    });
+    this.downloads.set(url, download);
+    return download;
+  }
+
+  private static async download(url: string): Promise<string | null> {
+    const path = await this.getCachePath(url);
+    if (!path || !CACHE_DIRECTORY) return null;
+
+    try {
+      await FileSystem.makeDirectoryAsync(CACHE_DIRECTORY, { intermediates: true });
+      // Download to a temporary name so a partial file is never mistaken for a cached one
+      const temporaryPath = `${path}.download`;
+      const { status } = await FileSystem.downloadAsync(url, temporaryPath);
+      if (status < 200 || status >= 300) {
+        await FileSystem.deleteAsync(temporaryPath, { idempotent: true });
+        return null;
+      }
+
+      await FileSystem.moveAsync({ from: temporaryPath, to: path });
+      return path;
+    } catch (error) {
+      console.error('Error caching media:', error);
+      return null;
+    }
+  }
+
+  private static async getCachePath(url: string): Promise<string | null> {
+    if (!CACHE_DIRECTORY) return null;
+
+    const hash = await Crypto.digestStringAsync(Crypto.CryptoDigestAlgorithm.SHA1, url);
+    const extension = url.split('?')[0].split('.').pop()?.toLowerCase() || '';
+    return `${CACHE_DIRECTORY}${hash}.${/^[a-z0-9]{1,5}$/.test(extension) ? extension : 'bin'}`;
+  }
+}
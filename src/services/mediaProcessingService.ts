@@ -0,0 +1,51 @@
+import { ImageManipulator, SaveFormat } from 'expo-image-manipulator';
+import { MediaAttachment } from '../types';
+
+const MAX_PHOTO_DIMENSION = 1600; // px, longest side
+const PHOTO_QUALITY = 0.7;
+const THUMBNAIL_DIMENSION = 320; // px, longest side
+const THUMBNAIL_QUALITY = 0.6;
+
+/**
+ * Prepares captured media for upload. Photos are downscaled and re-encoded as
+ * JPEG, which drops their EXIF metadata (GPS position, device and camera
+ * details), and get a small thumbnail for list views.
+ */
+export class MediaProcessingService {
+  /**
+   * Process an attachment before it is queued; non-photo attachments pass through
+   */
+  static async processAttachment(attachment: MediaAttachment): Promise<MediaAttachment> {
+    if (attachment.file_type !== 'photo') {
+      return attachment;
+    }
+
+    try {
+      const photo = await this.renderJpeg(attachment.uri, MAX_PHOTO_DIMENSION, PHOTO_QUALITY);
+      const thumbnail = await this.renderJpeg(photo.uri, THUMBNAIL_DIMENSION, THUMBNAIL_QUALITY);
+
+      return {
+        ...attachment,
+        uri: photo.uri,
+        mime_type: 'image/jpeg',
+        thumbnail_uri: thumbnail.uri,
+      };
+    } catch (error) {
+      // Never upload an unprocessed photo, it would still carry its location
+      console.error('Error processing photo:', error);
+      throw new Error('Failed to prepare photo for upload');
+    }
+  }
+
+  private static async renderJpeg(uri: string, maxDimension: number, quality: number) {
+    const image = await ImageManipulator.manipulate(uri).renderAsync();
+
+    if (Math.max(image.width, image.height) <= maxDimension) {
+      return image.saveAsync({ format: SaveFormat.JPEG, compress: quality });
+    }
+
+    const size = image.width >= image.height ? { width: maxDimension } : { height: maxDimension };
+    const resized = await ImageManipulator.manipulate(uri).resize(size).renderAsync();
+    return resized.saveAsync({ format: SaveFormat.JPEG, compress: quality });
+  }
+}
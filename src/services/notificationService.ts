@@ -1,15 +1,43 @@
 import * as Notifications from 'expo-notifications';
 import * as Device from 'expo-device';
 import { Platform } from 'react-native';
+import { CategoryConfigService } from './categoryConfigService';
 import { ReportCategory } from '../types';
 
+// Reports already shown in the foreground. A nearby report can arrive both as a
+// server push and as a local alert from ReportAlertService; only the first is shown.
+const presentedReportIds = new Set<string>();
+const MAX_PRESENTED_REPORT_IDS = 200;
+
+const markReportPresented = (reportId: unknown): boolean => {
+  if (typeof reportId !== 'string') {
+    return true;
+  }
+  if (presentedReportIds.has(reportId)) {
+    return false;
+  }
+
+  presentedReportIds.add(reportId);
+  if (presentedReportIds.size > MAX_PRESENTED_REPORT_IDS) {
+    const oldest = presentedReportIds.values().next().value;
+    if (oldest !== undefined) {
+      presentedReportIds.delete(oldest);
+    }
+  }
+  return true;
+};
+
 // Configure notification behavior
 Notifications.setNotificationHandler({
-  handleNotification: async () => ({
-    shouldShowAlert: true,
-    shouldPlaySound: true,
-    shouldSetBadge: false,
-  }),
+  handleNotification: async (notification) => {
+    const shouldShow = markReportPresented(notification.request.content.data?.reportId);
+    return {
+      shouldShowBanner: shouldShow,
+      shouldShowList: shouldShow,
+      shouldPlaySound: shouldShow,
+      shouldSetBadge: false,
+    };
+  },
 });
 
 export class NotificationService {
@@ -36,7 +64,8 @@ export class NotificationService {
       }
       
       if (finalStatus !== 'granted') {
-        alert('Failed to get push token for push notification!');
+        // Runs automatically on sign-in, so log instead of interrupting the user
+        console.log('⚠️ Notification permission not granted - push notifications disabled');
         return;
       }
       
@@ -44,12 +73,22 @@ export class NotificationService {
         projectId: process.env.EXPO_PUBLIC_EXPO_PROJECT_ID!, // Expo project ID from environment
       })).data;
     } else {
-      alert('Must use physical device for Push Notifications');
+      console.log('⚠️ Push notifications require a physical device');
     }
 
     return token;
   }
 
+  static async requestLocalNotificationPermission(): Promise<boolean> {
+    const { status: existingStatus } = await Notifications.getPermissionsAsync();
+    if (existingStatus === 'granted') {
+      return true;
+    }
+
+    const { status } = await Notifications.requestPermissionsAsync();
+    return status === 'granted';
+  }
+
   static async scheduleLocalNotification(
     title: string,
     body: string,
@@ -71,21 +110,7 @@ export class NotificationService {
   }
 
   static getSoundForCategory(category: ReportCategory): string {
-    switch (category) {
-      case 'police_checkpoint':
-        return 'siren.mp3';
-      case 'accident':
-        return 'crash.mp3';
-      case 'road_hazard':
-        return 'warning.mp3';
-      case 'traffic_jam':
-        return 'traffic.mp3';
-      case 'weather_alert':
-        return 'weather.mp3';
-      case 'general':
-      default:
-        return 'default.mp3';
-    }
+    return CategoryConfigService.getConfig(category).notification_sound;
   }
 
   static async cancelAllNotifications() {
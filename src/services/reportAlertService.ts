@@ -0,0 +1,270 @@
+import { LocationSubscription } from 'expo-location';
+import { SupabaseService } from './supabase';
+import { LocationService } from './locationService';
+import { NotificationService } from './notificationService';
+import { Location, Report, ReportCategory, User } from '../types';
+import {
+  getCategoryIcon,
+  getCategoryLabel,
+  isCategoryEnabledInPreferences,
+} from '../utils/categories';
+import { getDistanceToReport } from '../utils/geometry';
+
+interface RecentAlert {
+  reportId: string;
+  category: ReportCategory;
+  latitude: number;
+  longitude: number;
+  alertedAt: number;
+}
+
+/**
+ * Raises a local notification when a new report is inserted near the user
+ * in a category they have enabled in their notification preferences.
+ * Reports from low-trust reporters alert when they are first confirmed.
+ */
+export class ReportAlertService {
+  private static instance: ReportAlertService;
+  private user: User | null = null;
+  private userLocation: Location | null = null;
+  private channel: any = null;
+  private locationSubscription: LocationSubscription | null = null;
+  private recentAlerts: RecentAlert[] = [];
+  private heldReportIds = new Set<string>(); // low-trust reports waiting for a confirmation
+  private lastSyncedLocation: Location | null = null;
+  private lastSyncedAt = 0;
+  private isRunning = false;
+  private startCount = 0; // identifies the latest start() so an overtaken one backs out
+
+  // Suppress repeat alerts for the same category within this distance and time window
+  private static readonly THROTTLE_DISTANCE = 500; // meters
+  private static readonly THROTTLE_WINDOW = 2 * 60 * 1000; // 2 minutes
+
+  // Reports whose heading differs from the user's course by more than this face away
+  private static readonly MAX_HEADING_DIFFERENCE = 90; // degrees
+
+  // Share the user's location with the server for push targeting at most this often
+  private static readonly LOCATION_SYNC_DISTANCE = 500; // meters
+  private static readonly LOCATION_SYNC_INTERVAL = 5 * 60 * 1000; // 5 minutes
+
+  static getInstance(): ReportAlertService {
+    if (!ReportAlertService.instance) {
+      ReportAlertService.instance = new ReportAlertService();
+    }
+    return ReportAlertService.instance;
+  }
+
+  /**
+   * Start listening for new reports, or refresh the user's settings if already running
+   */
+  async start(user: User): Promise<void> {
+    this.user = user;
+
+    if (this.isRunning) {
+      return;
+    }
+
+    console.log('🔔 Starting report alert service...');
+    this.isRunning = true;
+    const startId = ++this.startCount;
+    let locationSubscription: LocationSubscription | null = null;
+
+    try {
+      const hasPermission = await NotificationService.requestLocalNotificationPermission();
+      if (!hasPermission) {
+        console.log('⚠️ Notification permission not granted - report alerts disabled');
+      }
+
+      const location = await LocationService.getCurrentLocation();
+      if (location) {
+        this.updateLocation(location);
+      }
+      locationSubscription = await LocationService.watchLocation((location) => {
+        this.updateLocation(location);
+      });
+    } catch (error) {
+      console.error('Error preparing report alerts:', error);
+    }
+
+    // stop(), and maybe another start(), may have been called while waiting for permissions
+    if (!this.isRunning || startId !== this.startCount) {
+      locationSubscription?.remove();
+      return;
+    }
+
+    this.locationSubscription = locationSubscription;
+
+    this.channel = SupabaseService.subscribeToReports((payload) => {
+      if (payload.eventType === 'INSERT' && payload.new) {
+        this.handleNewReport(payload.new as Report);
+      } else if (payload.eventType === 'UPDATE' && payload.new && this.heldReportIds.has(payload.new.id)) {
+        this.handleHeldReportUpdate(payload.new as Report);
+      } else if (payload.eventType === 'DELETE' && payload.old) {
+        this.heldReportIds.delete(payload.old.id);
+      }
+    }, 'report_alerts');
+
+    console.log('✅ Report alert service started');
+  }
+
+  /**
+   * Stop listening for new reports
+   */
+  stop(): void {
+    if (!this.isRunning) {
+      return;
+    }
+
+    console.log('🔔 Stopping report alert service...');
+
+    if (this.channel) {
+      this.channel.unsubscribe();
+      this.channel = null;
+    }
+
+    if (this.locationSubscription) {
+      this.locationSubscription.remove();
+      this.locationSubscription = null;
+    }
+
+    this.user = null;
+    this.userLocation = null;
+    this.recentAlerts = [];
+    this.heldReportIds.clear();
+    this.lastSyncedLocation = null;
+    this.lastSyncedAt = 0;
+    this.isRunning = false;
+  }
+
+  private updateLocation(location: Location): void {
+    this.userLocation = location;
+
+    if (!this.user) return;
+
+    const movedFar = !this.lastSyncedLocation || !LocationService.isWithinRadius(
+      this.lastSyncedLocation.latitude,
+      this.lastSyncedLocation.longitude,
+      location.latitude,
+      location.longitude,
+      ReportAlertService.LOCATION_SYNC_DISTANCE
+    );
+    const isStale = Date.now() - this.lastSyncedAt > ReportAlertService.LOCATION_SYNC_INTERVAL;
+
+    if (movedFar || isStale) {
+      this.lastSyncedLocation = location;
+      this.lastSyncedAt = Date.now();
+      SupabaseService.updateUserLocation(this.user.id, location).then(({ error }) => {
+        if (error) {
+          console.error('Error syncing user location:', error);
+        }
+      });
+    }
+  }
+
+  private async handleNewReport(report: Report): Promise<void> {
+    if (!this.user || !this.userLocation) return;
+
+    // Don't alert users about their own reports
+    if (report.user_id === this.user.id) return;
+
+    // Duplicates merged into an existing incident confirm it rather than alerting again
+    if (report.status !== 'active') return;
+
+    // Reports from low-trust reporters alert once another driver confirms them
+    if (report.requires_confirmation) {
+      console.log(`🔕 Holding alert for report ${report.id} until it is confirmed`);
+      this.heldReportIds.add(report.id);
+      return;
+    }
+
+    if (!isCategoryEnabledInPreferences(report.category, this.user.notification_preferences)) {
+      return;
+    }
+
+    // Line and area reports count as nearby when any part of them is within the radius
+    const distance = getDistanceToReport(this.userLocation, report);
+    if (distance > this.user.notification_radius) return;
+
+    if (this.isFacingAway(report)) {
+      console.log(`🔕 Skipping alert for report ${report.id} facing away from the user`);
+      return;
+    }
+
+    if (this.isThrottled(report)) {
+      console.log(`🔕 Skipping duplicate alert for report ${report.id}`);
+      return;
+    }
+
+    try {
+      await NotificationService.scheduleLocalNotification(
+        `${getCategoryIcon(report.category)} ${getCategoryLabel(report.category)} ${LocationService.formatDistance(distance)} away`,
+        report.description,
+        report.category,
+        { reportId: report.id }
+      );
+    } catch (error) {
+      console.error('Error raising report alert:', error);
+    }
+  }
+
+  private handleHeldReportUpdate(report: Report): void {
+    if (report.status !== 'active') {
+      this.heldReportIds.delete(report.id);
+    } else if (!report.requires_confirmation) {
+      this.heldReportIds.delete(report.id);
+      this.handleNewReport(report);
+    }
+  }
+
+  /**
+   * Returns true if the report only affects traffic heading the other way from the user.
+   * Reports without a heading, or on both sides of the road, always alert.
+   */
+  private isFacingAway(report: Report): boolean {
+    if (!this.user || this.user.ignore_opposite_direction === false) return false;
+    if (report.heading == null || report.road_side === 'both') return false;
+
+    const course = this.userLocation ? LocationService.getCourse(this.userLocation) : null;
+    if (course === null) return false;
+
+    return LocationService.headingDifference(course, report.heading) > ReportAlertService.MAX_HEADING_DIFFERENCE;
+  }
+
+  /**
+   * Returns true if this report, or a same-category report close to it, was alerted recently
+   */
+  private isThrottled(report: Report): boolean {
+    const now = Date.now();
+
+    this.recentAlerts = this.recentAlerts.filter(
+      alert => now - alert.alertedAt <= ReportAlertService.THROTTLE_WINDOW
+    );
+
+    const isDuplicate = this.recentAlerts.some(alert =>
+      alert.reportId === report.id ||
+      (alert.category === report.category &&
+        LocationService.isWithinRadius(
+          alert.latitude,
+          alert.longitude,
+          report.latitude,
+          report.longitude,
+          ReportAlertService.THROTTLE_DISTANCE
+        ))
+    );
+
+    if (!isDuplicate) {
+      this.recentAlerts.push({
+        reportId: report.id,
+        category: report.category,
+        latitude: report.latitude,
+        longitude: report.longitude,
+        alertedAt: now,
+      });
+    }
+
+    return isDuplicate;
+  }
+}
+
+// Export singleton instance
+export const reportAlertService = ReportAlertService.getInstance();
@@ -0,0 +1,374 @@
+import { AppState, AppStateStatus, NativeEventSubscription } from 'react-native';
+import * as Crypto from 'expo-crypto';
+import * as FileSystem from 'expo-file-system';
+import * as Network from 'expo-network';
+import { SupabaseService, UploadProgressCallback } from './supabase';
+import { MediaProcessingService } from './mediaProcessingService';
+import { ReportExpiryService } from './reportExpiryService';
+import { MediaAttachment, PendingReport, Report, ReportCategory, ReportDetails, ReportGeometry, RoadSide } from '../types';
+
+const QUEUE_FILE = FileSystem.documentDirectory
+  ? `${FileSystem.documentDirectory}report_queue.json`
+  : null;
+const MEDIA_DIRECTORY = FileSystem.documentDirectory
+  ? `${FileSystem.documentDirectory}report_queue/`
+  : null;
+
+export interface ReportDraft {
+  user_id: string;
+  category: ReportCategory;
+  description: string;
+  details: ReportDetails;
+  latitude: number;
+  longitude: number;
+  heading: number | null;
+  road_side: RoadSide | null;
+  geometry: ReportGeometry | null;
+  merged_into: string | null;
+  media: MediaAttachment[];
+}
+
+export interface SubmitResult {
+  status: 'submitted' | 'queued' | 'rejected';
+  report?: Report; // the created report, when submitted; merged_into is set if it was a duplicate
+  error?: any;
+}
+
+type QueueListener = (reports: PendingReport[]) => void;
+
+/**
+ * Persists report submissions on the device and retries them with backoff
+ * until they reach the server, so reports made without signal aren't lost.
+ */
+export class ReportQueueService {
+  private static instance: ReportQueueService;
+  private queue: PendingReport[] = [];
+  private listeners: QueueListener[] = [];
+  private userId: string | null = null;
+  private loaded: Promise<void> | null = null;
+  private isFlushing = false;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private networkSubscription: { remove: () => void } | null = null;
+  private appStateSubscription: NativeEventSubscription | null = null;
+
+  private static readonly INITIAL_RETRY_DELAY = 5 * 1000; // 5 seconds
+  private static readonly MAX_RETRY_DELAY = 5 * 60 * 1000; // 5 minutes
+
+  static getInstance(): ReportQueueService {
+    if (!ReportQueueService.instance) {
+      ReportQueueService.instance = new ReportQueueService();
+    }
+    return ReportQueueService.instance;
+  }
+
+  /**
+   * Start retrying the signed-in user's queued reports
+   */
+  async start(userId: string): Promise<void> {
+    if (this.userId === userId) return;
+
+    this.stop();
+    this.userId = userId;
+    await this.load();
+
+    this.networkSubscription = Network.addNetworkStateListener(({ isConnected, isInternetReachable }) => {
+      if (isConnected && isInternetReachable !== false) {
+        this.flush(true);
+      }
+    });
+    this.appStateSubscription = AppState.addEventListener('change', (state: AppStateStatus) => {
+      if (state === 'active') {
+        this.flush(true);
+      }
+    });
+
+    this.notify();
+    this.flush();
+  }
+
+  stop(): void {
+    this.networkSubscription?.remove();
+    this.networkSubscription = null;
+    this.appStateSubscription?.remove();
+    this.appStateSubscription = null;
+
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+
+    this.userId = null;
+    this.notify();
+  }
+
+  /**
+   * Queued reports for the signed-in user, newest first
+   */
+  getPendingReports(): PendingReport[] {
+    return this.queue
+      .filter(report => report.user_id === this.userId)
+      .sort((a, b) => b.report_timestamp.localeCompare(a.report_timestamp));
+  }
+
+  subscribe(listener: QueueListener): () => void {
+    this.listeners.push(listener);
+    listener(this.getPendingReports());
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+    };
+  }
+
+  /**
+   * Send a report now, queueing it if the server can't be reached
+   */
+  async submit(draft: ReportDraft, onProgress?: UploadProgressCallback): Promise<SubmitResult> {
+    await this.load();
+
+    const id = Crypto.randomUUID();
+    const media = await Promise.all(draft.media.map(m => MediaProcessingService.processAttachment(m)));
+    const report: PendingReport = {
+      ...draft,
+      id,
+      report_timestamp: new Date().toISOString(),
+      media: await Promise.all(media.map(m => this.persistMedia(id, m))),
+      state: 'pending',
+      attempts: 0,
+      next_attempt_at: Date.now(),
+    };
+
+    try {
+      const created = await this.send(report, onProgress);
+      await this.deleteMedia(report);
+      return { status: 'submitted', report: created };
+    } catch (error) {
+      // Problems the server rejected won't fix themselves on retry
+      if (!this.isRetryable(error)) {
+        await this.deleteMedia(report);
+        return { status: 'rejected', error };
+      }
+
+      console.log('📥 Report queued for retry:', report.id);
+      this.recordFailure(report, error);
+      this.queue.push(report);
+      await this.save();
+      this.notify();
+      this.scheduleRetry();
+      return { status: 'queued', error };
+    }
+  }
+
+  /**
+   * Retry the queued reports that are due; force ignores the backoff
+   */
+  async flush(force = false): Promise<void> {
+    if (this.isFlushing || !this.userId) return;
+    this.isFlushing = true;
+
+    try {
+      const due = this.queue.filter(report =>
+        report.user_id === this.userId &&
+        report.state === 'pending' &&
+        (force || report.next_attempt_at <= Date.now())
+      );
+
+      for (const report of due) {
+        // Sending would restart the report's lifetime and alert drivers about a hazard that is likely gone
+        if (ReportExpiryService.isReportExpired(report.category, report.report_timestamp)) {
+          console.log('📥 Queued report too old to send:', report.id);
+          report.state = 'failed';
+          report.last_error = 'It would already have expired, so it was not sent';
+          await this.save();
+          this.notify();
+          continue;
+        }
+
+        try {
+          await this.send(report);
+          console.log('📤 Queued report submitted:', report.id);
+          await this.remove(report.id);
+        } catch (error) {
+          this.recordFailure(report, error);
+          await this.save();
+          this.notify();
+        }
+      }
+    } finally {
+      this.isFlushing = false;
+      this.scheduleRetry();
+    }
+  }
+
+  /**
+   * Put a failed report back in the queue and try it straight away
+   */
+  async retry(reportId: string): Promise<void> {
+    const report = this.queue.find(r => r.id === reportId);
+    if (!report) return;
+
+    report.state = 'pending';
+    report.next_attempt_at = Date.now();
+    await this.save();
+    this.notify();
+    await this.flush(true);
+  }
+
+  async discard(reportId: string): Promise<void> {
+    await this.remove(reportId);
+  }
+
+  private async send(report: PendingReport, onProgress?: UploadProgressCallback): Promise<Report> {
+    const { data, error } = await SupabaseService.createReportWithMedia(
+      {
+        id: report.id,
+        category: report.category,
+        description: report.description,
+        details: report.details ?? {},
+        latitude: report.latitude,
+        longitude: report.longitude,
+        heading: report.heading ?? null,
+        road_side: report.road_side ?? null,
+        geometry: report.geometry ?? null,
+        merged_into: report.merged_into ?? null,
+        report_timestamp: report.report_timestamp,
+      },
+      report.media,
+      onProgress
+    );
+
+    if (error) {
+      throw error;
+    }
+    return data as Report;
+  }
+
+  private recordFailure(report: PendingReport, error: any): void {
+    report.attempts += 1;
+    report.last_error = error?.message || String(error);
+
+    if (this.isRetryable(error)) {
+      const delay = Math.min(
+        ReportQueueService.INITIAL_RETRY_DELAY * Math.pow(2, report.attempts - 1),
+        ReportQueueService.MAX_RETRY_DELAY
+      );
+      report.next_attempt_at = Date.now() + delay;
+    } else {
+      report.state = 'failed';
+    }
+  }
+
+  /**
+   * Network failures have no Postgres/PostgREST error code; everything else was rejected by the server
+   */
+  private isRetryable(error: any): boolean {
+    const code = error?.code;
+    if (typeof code === 'string' && (/^[0-9A-Z]{5}$/.test(code) || code.startsWith('PGRST'))) {
+      return false;
+    }
+    const status = Number(error?.statusCode ?? error?.status);
+    return !(status >= 400 && status < 500 && status !== 408 && status !== 429);
+  }
+
+  private scheduleRetry(): void {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+    if (!this.userId) return;
+
+    const nextAttempt = Math.min(
+      ...this.queue
+        .filter(report => report.user_id === this.userId && report.state === 'pending')
+        .map(report => report.next_attempt_at)
+    );
+    if (!isFinite(nextAttempt)) return;
+
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      this.flush();
+    }, Math.max(nextAttempt - Date.now(), 0));
+  }
+
+  private async remove(reportId: string): Promise<void> {
+    const report = this.queue.find(r => r.id === reportId);
+    if (!report) return;
+
+    this.queue = this.queue.filter(r => r.id !== reportId);
+    await this.deleteMedia(report);
+    await this.save();
+    this.notify();
+  }
+
+  private notify(): void {
+    const reports = this.getPendingReports();
+    this.listeners.forEach(listener => listener(reports));
+  }
+
+  /**
+   * Copy captured media out of the cache so it survives until the upload succeeds
+   */
+  private async persistMedia(reportId: string, media: MediaAttachment): Promise<MediaAttachment> {
+    if (!MEDIA_DIRECTORY) {
+      return media;
+    }
+
+    try {
+      await FileSystem.makeDirectoryAsync(MEDIA_DIRECTORY, { intermediates: true });
+      const uri = `${MEDIA_DIRECTORY}${reportId}_${media.file_name}`;
+      await FileSystem.copyAsync({ from: media.uri, to: uri });
+
+      let thumbnailUri: string | undefined;
+      if (media.thumbnail_uri) {
+        thumbnailUri = `${MEDIA_DIRECTORY}${reportId}_thumb_${media.file_name}`;
+        await FileSystem.copyAsync({ from: media.thumbnail_uri, to: thumbnailUri });
+      }
+      return { ...media, uri, thumbnail_uri: thumbnailUri };
+    } catch (error) {
+      console.error('Error saving queued media:', error);
+      return media;
+    }
+  }
+
+  private async deleteMedia(report: PendingReport): Promise<void> {
+    if (!MEDIA_DIRECTORY) return;
+
+    await Promise.all(
+      report.media
+        .flatMap(media => (media.thumbnail_uri ? [media.uri, media.thumbnail_uri] : [media.uri]))
+        .filter(uri => uri.startsWith(MEDIA_DIRECTORY))
+        .map(uri => FileSystem.deleteAsync(uri, { idempotent: true }).catch(() => {}))
+    );
+  }
+
+  private load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = this.loadFromDisk();
+    }
+    return this.loaded;
+  }
+
+  private async loadFromDisk(): Promise<void> {
+    if (!QUEUE_FILE) return;
+
+    try {
+      const info = await FileSystem.getInfoAsync(QUEUE_FILE);
+      if (!info.exists) return;
+
+      this.queue = JSON.parse(await FileSystem.readAsStringAsync(QUEUE_FILE));
+    } catch (error) {
+      console.error('Error reading report queue:', error);
+    }
+  }
+
+  private async save(): Promise<void> {
+    if (!QUEUE_FILE) return;
+
+    try {
+      await FileSystem.writeAsStringAsync(QUEUE_FILE, JSON.stringify(this.queue));
+    } catch (error) {
+      console.error('Error saving report queue:', error);
+    }
+  }
+}
+
+// Export singleton instance
+export const reportQueueService = ReportQueueService.getInstance();
@@ -0,0 +1,166 @@
+import { SupabaseService } from './supabase';
+import { MapRegion, Report } from '../types';
+import { reportIntersectsRegion } from '../utils/geometry';
+
+interface Tile {
+  key: string;
+  size: number;
+  x: number;
+  y: number;
+}
+
+interface CachedTile {
+  tile: Tile;
+  reports: Report[];
+  fetchedAt: number;
+}
+
+/**
+ * Caches active reports per map tile so panning back over an area
+ * doesn't refetch it. Tiles are square cells on a lat/lng grid whose
+ * size follows the zoom level, so a viewport covers at most 2x2 tiles.
+ */
+export class ReportTileCache {
+  private tiles = new Map<string, CachedTile>();
+  private pending = new Map<string, Promise<CachedTile | null>>();
+
+  private static readonly TILE_TTL = 2 * 60 * 1000; // 2 minutes
+  private static readonly MAX_TILES = 64;
+  private static readonly REPORTS_PER_TILE = 200;
+
+  /**
+   * Get the active reports inside a region, fetching only the tiles that are missing or stale
+   */
+  async getReportsInRegion(region: MapRegion): Promise<Report[]> {
+    const tiles = this.getTilesForRegion(region);
+    const results = await Promise.all(tiles.map(tile => this.loadTile(tile)));
+
+    const reports = new Map<string, Report>();
+    results.forEach(result => {
+      result?.reports.forEach(report => reports.set(report.id, report));
+    });
+
+    return Array.from(reports.values()).filter(report => this.isInRegion(report, region));
+  }
+
+  /**
+   * Apply a realtime insert or update to the cached tile containing the report
+   */
+  upsertReport(report: Report): void {
+    this.removeReport(report.id);
+    if (report.status !== 'active') return;
+
+    this.tiles.forEach(cached => {
+      if (this.isInTile(report, cached.tile)) {
+        cached.reports = [report, ...cached.reports];
+      }
+    });
+  }
+
+  removeReport(reportId: string): void {
+    this.tiles.forEach(cached => {
+      cached.reports = cached.reports.filter(report => report.id !== reportId);
+    });
+  }
+
+  clear(): void {
+    this.tiles.clear();
+    this.pending.clear();
+  }
+
+  private async loadTile(tile: Tile): Promise<CachedTile | null> {
+    const cached = this.tiles.get(tile.key);
+    if (cached && Date.now() - cached.fetchedAt < ReportTileCache.TILE_TTL) {
+      return cached;
+    }
+
+    // Share in-flight requests between overlapping region changes
+    const inFlight = this.pending.get(tile.key);
+    if (inFlight) return inFlight;
+
+    const request = this.fetchTile(tile).finally(() => {
+      this.pending.delete(tile.key);
+    });
+    this.pending.set(tile.key, request);
+    return request;
+  }
+
+  private async fetchTile(tile: Tile): Promise<CachedTile | null> {
+    const { data, error } = await SupabaseService.getReportsInRegion(
+      this.getTileRegion(tile),
+      ReportTileCache.REPORTS_PER_TILE
+    );
+
+    if (error || !data) {
+      console.error(`❌ Error loading reports for tile ${tile.key}:`, error);
+      // Fall back to stale data rather than clearing the map
+      return this.tiles.get(tile.key) || null;
+    }
+
+    const entry = { tile, reports: data, fetchedAt: Date.now() };
+    this.tiles.set(tile.key, entry);
+    this.evictOldTiles();
+    return entry;
+  }
+
+  private evictOldTiles(): void {
+    if (this.tiles.size <= ReportTileCache.MAX_TILES) return;
+
+    const oldest = Array.from(this.tiles.entries())
+      .sort(([, a], [, b]) => a.fetchedAt - b.fetchedAt)
+      .slice(0, this.tiles.size - ReportTileCache.MAX_TILES);
+    oldest.forEach(([key]) => this.tiles.delete(key));
+  }
+
+  private getTilesForRegion(region: MapRegion): Tile[] {
+    const size = this.getTileSize(region);
+    const columns = Math.ceil(360 / size);
+    const rows = Math.ceil(180 / size);
+
+    const minLat = Math.max(region.latitude - region.latitudeDelta / 2, -90);
+    const maxLat = Math.min(region.latitude + region.latitudeDelta / 2, 90);
+    const minY = Math.max(Math.floor((minLat + 90) / size), 0);
+    const maxY = Math.min(Math.floor((maxLat + 90) / size), rows - 1);
+
+    const minX = Math.floor((region.longitude - region.longitudeDelta / 2 + 180) / size);
+    const maxX = Math.floor((region.longitude + region.longitudeDelta / 2 + 180) / size);
+
+    const tiles = new Map<string, Tile>();
+    for (let x = minX; x <= maxX && x - minX < columns; x++) {
+      // Wrap across the antimeridian
+      const wrappedX = ((x % columns) + columns) % columns;
+      for (let y = minY; y <= maxY; y++) {
+        const key = `${size}:${wrappedX}:${y}`;
+        tiles.set(key, { key, size, x: wrappedX, y });
+      }
+    }
+
+    return Array.from(tiles.values());
+  }
+
+  /**
+   * Smallest power-of-two tile (in degrees) that is at least as large as the viewport
+   */
+  private getTileSize(region: MapRegion): number {
+    const span = Math.max(region.latitudeDelta, region.longitudeDelta, 1 / 1024);
+    return Math.min(Math.pow(2, Math.ceil(Math.log2(span))), 256);
+  }
+
+  private getTileRegion(tile: Tile): MapRegion {
+    return {
+      latitude: -90 + (tile.y + 0.5) * tile.size,
+      longitude: -180 + (tile.x + 0.5) * tile.size,
+      latitudeDelta: tile.size,
+      longitudeDelta: tile.size,
+    };
+  }
+
+  // Reports with a line or polygon belong to every tile their shape overlaps
+  private isInTile(report: Report, tile: Tile): boolean {
+    return reportIntersectsRegion(report, this.getTileRegion(tile));
+  }
+
+  private isInRegion(report: Report, region: MapRegion): boolean {
+    return reportIntersectsRegion(report, region);
+  }
+}
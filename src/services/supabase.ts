@@ -1,5 +1,23 @@
-import { createClient } from '@supabase/supabase-js';
-import { User, Report, MediaFile, NotificationPreferences } from '../types';
+import { Platform } from 'react-native';
+import { createClient, PostgrestError, Session } from '@supabase/supabase-js';
+import {
+  User,
+  Report,
+  ReportVote,
+  MediaFile,
+  NotificationPreferences,
+  CategoryConfig,
+  Location,
+  MapRegion,
+  ReportWithDistance,
+  MediaAttachment,
+  IncidentEvent,
+  ReportEdit,
+  ReportComment,
+  UserReputation,
+} from '../types';
+import { getDefaultNotificationPreferences } from '../utils/categories';
+import { getDistanceToReport } from '../utils/geometry';
 
 // Supabase configuration from environment variables
 const SUPABASE_URL = process.env.EXPO_PUBLIC_SUPABASE_URL || 'https://placeholder.supabase.co';
@@ -15,6 +33,27 @@ const isSupabaseConfigured = () => {
 
 export const supabase = createClient(SUPABASE_URL, SUPABASE_ANON_KEY);
 
+const MEDIA_BUCKET = 'media';
+const UPLOAD_ATTEMPTS = 3;
+
+export type UploadProgressCallback = (attachmentIndex: number, progress: number) => void;
+
+// File reference React Native's FormData uploads from disk
+interface ReactNativeFile {
+  uri: string;
+  name: string;
+  type: string;
+}
+
+const COMMENT_WITH_AUTHOR_SELECT = '*, user:users(id, username, avatar_url)';
+
+// Report columns plus author summary and media, fetched in a single request
+const REPORT_WITH_DETAILS_SELECT = `
+  *,
+  user:users(id, username, avatar_url, reputation_score),
+  media_files(*)
+`;
+
 export class SupabaseService {
   static supabase = supabase;
 
@@ -71,14 +110,7 @@ export class SupabaseService {
 
   // User profile methods
   static async createUserProfile(userId: string, email: string, username?: string) {
-    const defaultPreferences: NotificationPreferences = {
-      police_checkpoints: true,
-      accidents: true,
-      road_hazards: true,
-      traffic_jams: true,
-      weather_alerts: true,
-      general_alerts: true,
-    };
+    const defaultPreferences: NotificationPreferences = getDefaultNotificationPreferences();
 
     // First check if user profile already exists
     const { data: existingUser } = await supabase
@@ -176,6 +208,20 @@ export class SupabaseService {
     return { success: true };
   }
 
+  // Reputation score and the figures behind it
+  static async getUserReputation(userId: string) {
+    const { data, error } = await supabase
+      .rpc('get_user_reputation', { user_id_param: userId })
+      .single();
+
+    if (error) {
+      console.error('❌ Error fetching reputation:', error);
+      return { data: null, error };
+    }
+
+    return { data: data as UserReputation, error: null };
+  }
+
   static async updateUserProfile(userId: string, updates: Partial<User>) {
     const { data, error } = await supabase
       .from('users')
@@ -184,8 +230,55 @@ export class SupabaseService {
     return { data, error };
   }
 
+  // Push notification methods
+  static async registerPushToken(token: string, platform: string) {
+    const { data, error } = await supabase
+      .rpc('register_push_token', {
+        token_param: token,
+        platform_param: platform,
+      });
+    return { data, error };
+  }
+
+  static async unregisterPushToken(token: string) {
+    const { error } = await supabase
+      .from('push_tokens')
+      .delete()
+      .eq('token', token);
+    return { error };
+  }
+
+  // Last known location, used by the server to target push notifications
+  static async updateUserLocation(userId: string, location: Location) {
+    const { error } = await supabase
+      .from('user_locations')
+      .upsert({
+        user_id: userId,
+        latitude: location.latitude,
+        longitude: location.longitude,
+      });
+    return { error };
+  }
+
+  // Category config methods
+  static async getCategoryConfig() {
+    try {
+      const { data, error } = await supabase
+        .from('category_config')
+        .select('*');
+      return { data: data as CategoryConfig[] | null, error };
+    } catch (error) {
+      console.error('Error fetching category config:', error);
+      return { data: null, error };
+    }
+  }
+
   // Report methods
-  static async createReport(report: Omit<Report, 'id' | 'report_timestamp' | 'status' | 'created_at' | 'updated_at'>) {
+  // id and report_timestamp may be set by the client so queued reports keep their capture time
+  static async createReport(
+    report: Omit<Report, 'id' | 'report_timestamp' | 'status' | 'created_at' | 'updated_at'> &
+      Partial<Pick<Report, 'id' | 'report_timestamp'>>
+  ) {
     const { data, error } = await supabase
       .from('reports')
       .insert([
@@ -194,166 +287,165 @@ export class SupabaseService {
           status: 'active',
         },
       ])
-      .select(`
-        *,
-        user:users(id, username, avatar_url)
-      `)
+      .select(REPORT_WITH_DETAILS_SELECT)
       .single();
-    return { data, error };
+    return { data: data as Report | null, error };
   }
 
   static async getReports(limit = 50, offset = 0) {
     console.log('🔍 Fetching reports...');
-    
-    // First, get reports without user data
-    const { data: reports, error: reportsError } = await supabase
+
+    const { data, error } = await supabase
       .from('reports')
-      .select('*')
+      .select(REPORT_WITH_DETAILS_SELECT)
+      // Duplicates are shown through the incident they were merged into, and
+      // resolved reports have left the road
+      .eq('status', 'active')
       .order('report_timestamp', { ascending: false })
       .range(offset, offset + limit - 1);
-    
-    if (reportsError) {
-      console.error('❌ Error fetching reports:', reportsError);
-      return { data: null, error: reportsError };
-    }
-    
-    if (!reports) {
-      return { data: [], error: null };
+
+    if (error) {
+      console.error('❌ Error fetching reports:', error);
+      return { data: null, error };
     }
-    
-    console.log('📊 Reports fetched:', reports.length);
-    
-    // Then, fetch user data for each report
-    const reportsWithUsers = await Promise.all(
-      reports.map(async (report) => {
-        try {
-          const { data: userData, error: userError } = await supabase
-            .from('users')
-            .select('id, username, avatar_url')
-            .eq('id', report.user_id)
-            .single();
-          
-          if (userError) {
-            console.error(`❌ Error fetching user data for report ${report.id}:`, userError);
-            return {
-              ...report,
-              user: null,
-              media_files: []
-            };
-          }
-          
-          // Log only if there's an issue
-          if (!userData || !userData.username) {
-            console.log(`⚠️ User data issue for report ${report.id}:`, {
-              user_id: report.user_id,
-              user: userData ? {
-                id: userData.id,
-                username: userData.username,
-                hasUsername: !!userData.username
-              } : 'NO USER DATA'
-            });
-          }
-          
-          // Fetch media files
-          const { data: mediaFiles } = await supabase
-            .from('media_files')
-            .select('*')
-            .eq('report_id', report.id);
-          
-          return {
-            ...report,
-            user: userData,
-            media_files: mediaFiles || []
-          };
-        } catch (error) {
-          console.error(`❌ Error processing report ${report.id}:`, error);
-          return {
-            ...report,
-            user: null,
-            media_files: []
-          };
-        }
-      })
-    );
-    
-    return { data: reportsWithUsers, error: null };
+
+    console.log('📊 Reports fetched:', data?.length ?? 0);
+    return { data: (data || []) as Report[], error: null };
   }
 
   static async getReportById(reportId: string) {
     console.log('🔍 Fetching report by ID:', reportId);
-    
-    // First, get the report
-    const { data: report, error: reportError } = await supabase
+
+    const { data, error } = await supabase
       .from('reports')
-      .select('*')
+      .select(REPORT_WITH_DETAILS_SELECT)
       .eq('id', reportId)
       .single();
-    
-    if (reportError) {
-      console.error('❌ Error fetching report:', reportError);
-      return { data: null, error: reportError };
+
+    if (error) {
+      console.error('❌ Error fetching report:', error);
+      return { data: null, error };
     }
-    
-    if (!report) {
-      return { data: null, error: new Error('Report not found') };
+
+    return { data: data as Report, error: null };
+  }
+
+  // Duplicate reports merged into an incident, oldest first
+  static async getMergedReports(reportId: string) {
+    const { data, error } = await supabase
+      .from('reports')
+      .select(REPORT_WITH_DETAILS_SELECT)
+      .eq('merged_into', reportId)
+      .order('report_timestamp', { ascending: true });
+
+    if (error) {
+      console.error('❌ Error fetching merged reports:', error);
+      return { data: null, error };
     }
-    
-    // Then, fetch user data
-    const { data: userData, error: userError } = await supabase
-      .from('users')
-      .select('id, username, avatar_url')
-      .eq('id', report.user_id)
-      .single();
-    
-    if (userError) {
-      console.error('❌ Error fetching user data:', userError);
-      return { data: null, error: userError };
+
+    return { data: (data || []) as Report[], error: null };
+  }
+
+  // History of one or more incidents, oldest first
+  static async getIncidentEvents(incidentIds: string[]) {
+    if (incidentIds.length === 0) {
+      return { data: [] as IncidentEvent[], error: null };
     }
-    
-    // Fetch media files
-    const { data: mediaFiles } = await supabase
-      .from('media_files')
-      .select('*')
-      .eq('report_id', reportId);
-    
-    const reportWithUser = {
-      ...report,
-      user: userData,
-      media_files: mediaFiles || []
-    };
-    
-    console.log('✅ Report with user data:', {
-      id: reportWithUser.id,
-      user: reportWithUser.user ? {
-        id: reportWithUser.user.id,
-        username: reportWithUser.user.username,
-        hasUsername: !!reportWithUser.user.username
-      } : 'NO USER DATA'
-    });
-    
-    return { data: reportWithUser, error: null };
+
+    const { data, error } = await supabase
+      .from('incident_events')
+      .select('*, user:users(id, username, avatar_url)')
+      .in('incident_id', incidentIds)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('❌ Error fetching incident events:', error);
+      return { data: null, error };
+    }
+
+    return { data: (data || []) as IncidentEvent[], error: null };
   }
 
-  static async getReportsByLocation(lat: number, lng: number, radius: number) {
+  // Active reports within radius meters of a point, nearest first
+  static async getReportsByLocation(lat: number, lng: number, radius: number, limit = 200) {
+    try {
+      const { data, error } = await supabase
+        .rpc('get_reports_within_radius', {
+          lat_param: lat,
+          lng_param: lng,
+          radius_param: radius,
+          limit_param: limit,
+        })
+        .select(REPORT_WITH_DETAILS_SELECT);
+
+      if (error || !data) {
+        return { data: null, error };
+      }
+
+      const reports: ReportWithDistance[] = (data as Report[]).map(report => ({
+        ...report,
+        distance: getDistanceToReport({ latitude: lat, longitude: lng }, report),
+      }));
+      return { data: reports, error: null };
+    } catch (error) {
+      console.error('Error fetching reports by location:', error);
+      return { data: null, error };
+    }
+  }
+
+  // Active reports inside the visible map region
+  static async getReportsInRegion(region: MapRegion, limit = 200) {
+    const halfLat = region.latitudeDelta / 2;
+    const halfLng = Math.min(region.longitudeDelta / 2, 180);
+    const wrapLng = (lng: number) => ((((lng + 180) % 360) + 360) % 360) - 180;
+
+    try {
+      const { data, error } = await supabase
+        .rpc('get_reports_in_bbox', {
+          min_lat_param: Math.max(region.latitude - halfLat, -90),
+          min_lng_param: halfLng >= 180 ? -180 : wrapLng(region.longitude - halfLng),
+          max_lat_param: Math.min(region.latitude + halfLat, 90),
+          max_lng_param: halfLng >= 180 ? 180 : wrapLng(region.longitude + halfLng),
+          limit_param: limit,
+        })
+        .select(REPORT_WITH_DETAILS_SELECT);
+
+      return { data: data as Report[] | null, error };
+    } catch (error) {
+      console.error('Error fetching reports in region:', error);
+      return { data: null, error };
+    }
+  }
+
+  // Vote methods
+  static async confirmReport(reportId: string) {
     const { data, error } = await supabase
-      .rpc('get_reports_within_radius', {
-        lat_param: lat,
-        lng_param: lng,
-        radius_param: radius,
+      .rpc('confirm_report', {
+        report_id_param: reportId,
       });
-    return { data, error };
+    return { data: data as Report | null, error };
   }
 
-  static async updateReportStatus(reportId: string, status: Report['status']) {
+  static async denyReport(reportId: string) {
     const { data, error } = await supabase
-      .from('reports')
-      .update({ status })
-      .eq('id', reportId);
-    return { data, error };
+      .rpc('deny_report', {
+        report_id_param: reportId,
+      });
+    return { data: data as Report | null, error };
+  }
+
+  static async getUserVote(reportId: string, userId: string) {
+    const { data, error } = await supabase
+      .from('report_votes')
+      .select('*')
+      .eq('report_id', reportId)
+      .eq('user_id', userId)
+      .maybeSingle();
+    return { data: data as ReportVote | null, error };
   }
 
   // Media methods
-  static async uploadMedia(file: File, reportId: string, fileType: 'photo' | 'audio') {
+  static async uploadMedia(file: File, reportId: string, fileType: MediaFile['file_type']) {
     const fileName = `${reportId}_${Date.now()}_${file.name}`;
     const { data, error } = await supabase.storage
       .from('media')
@@ -381,12 +473,387 @@ export class SupabaseService {
     return { data: mediaRecord, error: mediaError };
   }
 
+  /**
+   * Create a report together with its attachments.
+   * Files are uploaded under staging/ and moved into place, then the report and
+   * its media_files rows are inserted in one transaction. If any step fails the
+   * uploaded files are removed, so a report is never live without its media.
+   */
+  static async createReportWithMedia(
+    report: Pick<Report, 'id' | 'category' | 'description' | 'latitude' | 'longitude'> &
+      Partial<Pick<Report, 'report_timestamp' | 'details' | 'heading' | 'road_side' | 'geometry' | 'merged_into'>>,
+    attachments: MediaAttachment[],
+    onProgress?: UploadProgressCallback
+  ) {
+    // A retry whose earlier attempt committed gets the existing report back
+    const { data: existing } = await supabase
+      .from('reports')
+      .select(REPORT_WITH_DETAILS_SELECT)
+      .eq('id', report.id)
+      .maybeSingle();
+    if (existing) {
+      return { data: existing as Report, error: null };
+    }
+
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+      return { data: null, error: { message: 'You must be signed in to submit a report' } };
+    }
+
+    const uploadedPaths: string[] = [];
+    try {
+      const media = await this.uploadAttachments(report.id, session, attachments, uploadedPaths, onProgress);
+
+      const { data: created, error } = await supabase.rpc('create_report_with_media', {
+        id_param: report.id,
+        category_param: report.category,
+        description_param: report.description,
+        latitude_param: report.latitude,
+        longitude_param: report.longitude,
+        report_timestamp_param: report.report_timestamp ?? null,
+        media_param: media,
+        details_param: report.details ?? {},
+        heading_param: report.heading ?? null,
+        road_side_param: report.road_side ?? null,
+        geometry_param: report.geometry ?? null,
+        merged_into_param: report.merged_into ?? null,
+      });
+      if (error) throw error;
+
+      console.log('✅ Report created with', media.length, 'attachments');
+      return { data: created as Report, error: null };
+    } catch (error) {
+      console.error('❌ Error creating report with media:', error);
+      await this.removeUnsavedUploads(uploadedPaths);
+      return { data: null, error: error instanceof Error ? { message: error.message } : (error as PostgrestError) };
+    }
+  }
+
+  // Edit the description and attachments of one of the current user's reports
+  static async editReport(
+    report: Pick<Report, 'id' | 'media_files'>,
+    changes: { description?: string; addMedia?: MediaAttachment[]; removeMediaIds?: string[] },
+    onProgress?: UploadProgressCallback
+  ) {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+      return { data: null, error: { message: 'You must be signed in to edit a report' } };
+    }
+
+    const removeMediaIds = changes.removeMediaIds ?? [];
+    const uploadedPaths: string[] = [];
+    try {
+      // Prefix new files so they can't clash with the report's existing ones
+      const media = await this.uploadAttachments(
+        report.id,
+        session,
+        changes.addMedia ?? [],
+        uploadedPaths,
+        onProgress,
+        `${Date.now()}_`
+      );
+
+      const { data: edited, error } = await supabase.rpc('edit_report', {
+        report_id_param: report.id,
+        description_param: changes.description ?? null,
+        media_param: media,
+        removed_media_ids_param: removeMediaIds,
+      });
+      if (error) throw error;
+
+      // Removed originals take their thumbnails with them
+      const removedPaths = (report.media_files ?? [])
+        .filter(file => removeMediaIds.includes(file.id) || removeMediaIds.includes(file.source_media_id ?? ''))
+        .map(file => file.file_name);
+      await this.removeStorageFiles(removedPaths);
+
+      console.log('✅ Report edited:', report.id);
+      return { data: edited as Report, error: null };
+    } catch (error) {
+      console.error('❌ Error editing report:', error);
+      await this.removeUnsavedUploads(uploadedPaths);
+      return { data: null, error: error instanceof Error ? { message: error.message } : (error as PostgrestError) };
+    }
+  }
+
+  static async resolveReport(reportId: string) {
+    const { data, error } = await supabase.rpc('resolve_report', {
+      report_id_param: reportId,
+    });
+    if (error) {
+      console.error('❌ Error resolving report:', error);
+    }
+    return { data: data as Report | null, error };
+  }
+
+  // Delete one of the current user's reports and its attachments
+  static async deleteReport(reportId: string) {
+    const { data, error } = await supabase.rpc('delete_report', {
+      report_id_param: reportId,
+    });
+    if (error) {
+      console.error('❌ Error deleting report:', error);
+      return { error };
+    }
+
+    await this.removeStorageFiles((data as string[] | null) ?? []);
+    console.log('🗑️ Report deleted:', reportId);
+    return { error: null };
+  }
+
+  // Changes the author made to a report, oldest first
+  static async getReportEdits(reportId: string) {
+    const { data, error } = await supabase
+      .from('report_edits')
+      .select('*, user:users(id, username, avatar_url)')
+      .eq('report_id', reportId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('❌ Error fetching report edits:', error);
+      return { data: null, error };
+    }
+
+    return { data: (data || []) as ReportEdit[], error: null };
+  }
+
+  // Comment methods
+  static async getReportComments(reportId: string) {
+    const { data, error } = await supabase
+      .from('report_comments')
+      .select(COMMENT_WITH_AUTHOR_SELECT)
+      .eq('report_id', reportId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('❌ Error fetching comments:', error);
+      return { data: null, error };
+    }
+
+    return { data: (data || []) as ReportComment[], error: null };
+  }
+
+  static async getCommentById(commentId: string) {
+    const { data, error } = await supabase
+      .from('report_comments')
+      .select(COMMENT_WITH_AUTHOR_SELECT)
+      .eq('id', commentId)
+      .maybeSingle();
+    return { data: data as ReportComment | null, error };
+  }
+
+  static async addReportComment(reportId: string, userId: string, body: string) {
+    const { data, error } = await supabase
+      .from('report_comments')
+      .insert({ report_id: reportId, user_id: userId, body: body.trim() })
+      .select(COMMENT_WITH_AUTHOR_SELECT)
+      .single();
+
+    if (error) {
+      console.error('❌ Error adding comment:', error);
+      return { data: null, error };
+    }
+
+    return { data: data as ReportComment, error: null };
+  }
+
+  static async updateReportComment(commentId: string, body: string) {
+    const { data, error } = await supabase
+      .from('report_comments')
+      .update({ body: body.trim() })
+      .eq('id', commentId)
+      .select(COMMENT_WITH_AUTHOR_SELECT)
+      .single();
+
+    if (error) {
+      console.error('❌ Error updating comment:', error);
+      return { data: null, error };
+    }
+
+    return { data: data as ReportComment, error: null };
+  }
+
+  static async deleteReportComment(commentId: string) {
+    const { error } = await supabase
+      .from('report_comments')
+      .delete()
+      .eq('id', commentId);
+
+    if (error) {
+      console.error('❌ Error deleting comment:', error);
+    }
+    return { error };
+  }
+
+  // Upload attachments (and their thumbnails) into a report's storage folder.
+  // Paths are added to uploadedPaths as they land so the caller can remove them
+  // if a later step fails.
+  private static async uploadAttachments(
+    reportId: string,
+    session: Session,
+    attachments: MediaAttachment[],
+    uploadedPaths: string[],
+    onProgress?: UploadProgressCallback,
+    namePrefix = ''
+  ) {
+    // Upload under staging/, then move into the report's folder
+    const uploadToReport = async (
+      fileName: string,
+      attachment: MediaAttachment,
+      onFileProgress: (progress: number) => void
+    ) => {
+      const stagingPath = `staging/${session.user.id}/${reportId}/${fileName}`;
+      const finalPath = `reports/${reportId}/${fileName}`;
+
+      await this.uploadFileWithRetry(stagingPath, attachment, session.access_token, onFileProgress);
+      uploadedPaths.push(stagingPath);
+
+      const { error: moveError } = await supabase.storage
+        .from(MEDIA_BUCKET)
+        .move(stagingPath, finalPath);
+      if (moveError) throw moveError;
+      uploadedPaths[uploadedPaths.length - 1] = finalPath;
+
+      const { data: urlData } = supabase.storage.from(MEDIA_BUCKET).getPublicUrl(finalPath);
+      return { file_url: urlData.publicUrl, file_name: finalPath };
+    };
+
+    const media = [];
+    for (let index = 0; index < attachments.length; index++) {
+      const attachment = attachments[index];
+      const fileName = `${namePrefix}${index}_${attachment.file_name}`;
+
+      const original = await uploadToReport(fileName, attachment, (progress) =>
+        onProgress?.(index, progress)
+      );
+
+      // Thumbnails are tiny, so they don't report progress of their own
+      let thumbnail: { file_url: string; file_name: string } | null = null;
+      if (attachment.thumbnail_uri) {
+        thumbnail = await uploadToReport(
+          `thumb_${fileName}`,
+          { ...attachment, uri: attachment.thumbnail_uri, mime_type: 'image/jpeg' },
+          () => {}
+        );
+      }
+
+      media.push({
+        file_type: attachment.file_type,
+        ...original,
+        thumbnail_url: thumbnail?.file_url ?? null,
+        thumbnail_name: thumbnail?.file_name ?? null,
+      });
+    }
+    return media;
+  }
+
+  // Remove uploaded files unless a media_files row already points at them: the
+  // RPC may have committed even though its response was lost
+  private static async removeUnsavedUploads(paths: string[]) {
+    if (paths.length === 0) return;
+    const { data, error } = await supabase
+      .from('media_files')
+      .select('id')
+      .in('file_name', paths)
+      .limit(1);
+    if (error || (data && data.length > 0)) {
+      console.log('⚠️ Keeping uploaded media that may belong to a saved report');
+      return;
+    }
+    await this.removeStorageFiles(paths);
+  }
+
+  private static async removeStorageFiles(paths: string[]) {
+    if (paths.length === 0) return;
+    const { error } = await supabase.storage.from(MEDIA_BUCKET).remove(paths);
+    if (error) {
+      console.error('❌ Error removing uploaded media:', error);
+    }
+  }
+
+  private static async uploadFileWithRetry(
+    path: string,
+    attachment: MediaAttachment,
+    accessToken: string,
+    onProgress: (progress: number) => void
+  ): Promise<void> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        await this.uploadFile(path, attachment, accessToken, onProgress);
+        return;
+      } catch (error: any) {
+        // Don't retry requests the server rejected
+        const status = Number(error?.statusCode);
+        if (attempt >= UPLOAD_ATTEMPTS || (status >= 400 && status < 500)) {
+          throw error;
+        }
+        console.log(`🔁 Retrying upload of ${attachment.file_name} (attempt ${attempt + 1})`);
+        onProgress(0);
+        await new Promise(resolve => setTimeout(resolve, 1000 * attempt));
+      }
+    }
+  }
+
+  // supabase-js doesn't report upload progress, so post to the storage API directly
+  private static async uploadFile(
+    path: string,
+    attachment: MediaAttachment,
+    accessToken: string,
+    onProgress: (progress: number) => void
+  ): Promise<void> {
+    const formData = new FormData();
+    formData.append('cacheControl', '3600');
+    if (Platform.OS === 'web') {
+      const blob = await (await fetch(attachment.uri)).blob();
+      formData.append('', blob, attachment.file_name);
+    } else {
+      const file: ReactNativeFile = {
+        uri: attachment.uri,
+        name: attachment.file_name,
+        type: attachment.mime_type,
+      };
+      formData.append('', file as unknown as Blob);
+    }
+
+    await new Promise<void>((resolve, reject) => {
+      const xhr = new XMLHttpRequest();
+      xhr.open('POST', `${SUPABASE_URL}/storage/v1/object/${MEDIA_BUCKET}/${path}`);
+      xhr.setRequestHeader('Authorization', `Bearer ${accessToken}`);
+      xhr.setRequestHeader('apikey', SUPABASE_ANON_KEY);
+      xhr.setRequestHeader('x-upsert', 'true');
+
+      xhr.upload.onprogress = (event) => {
+        if (event.lengthComputable) {
+          onProgress(event.loaded / event.total);
+        }
+      };
+      xhr.onload = () => {
+        if (xhr.status >= 200 && xhr.status < 300) {
+          onProgress(1);
+          resolve();
+          return;
+        }
+
+        let message = `Upload failed with status ${xhr.status}`;
+        try {
+          message = JSON.parse(xhr.responseText).message || message;
+        } catch {
+          // Keep the generic message
+        }
+        reject({ message, statusCode: xhr.status });
+      };
+      xhr.onerror = () => reject({ message: 'Network request failed' });
+      xhr.send(formData);
+    });
+  }
+
   // Real-time subscriptions
-  static subscribeToReports(callback: (payload: any) => void) {
+  static subscribeToReports(callback: (payload: any) => void, channelName = 'reports') {
     console.log('📡 Setting up real-time subscription for reports...');
 
+    // Each subscriber needs its own channel name; supabase reuses channels by topic
     const channel = supabase
-      .channel('reports')
+      .channel(channelName)
       .on(
         'postgres_changes',
         {
@@ -411,6 +878,69 @@ export class SupabaseService {
     return channel;
   }
 
+  static subscribeToIncidentEvents(callback: (event: IncidentEvent) => void, channelName = 'incident_events') {
+    console.log('📡 Setting up real-time subscription for incident events...');
+
+    const channel = supabase
+      .channel(channelName)
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'incident_events',
+        },
+        (payload) => callback(payload.new as IncidentEvent)
+      )
+      .subscribe((status) => {
+        console.log('📡 Incident events subscription status:', status);
+      });
+
+    return channel;
+  }
+
+  // Realtime can't filter deletes, so they arrive for every report; match them by id
+  static subscribeToReportComments(reportId: string, callback: (payload: any) => void) {
+    console.log('📡 Setting up real-time subscription for comments on report:', reportId);
+
+    const channel = supabase
+      .channel(`report_comments_${reportId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'report_comments',
+          filter: `report_id=eq.${reportId}`,
+        },
+        callback
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'report_comments',
+          filter: `report_id=eq.${reportId}`,
+        },
+        callback
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: 'DELETE',
+          schema: 'public',
+          table: 'report_comments',
+        },
+        callback
+      )
+      .subscribe((status) => {
+        console.log('📡 Report comments subscription status:', status);
+      });
+
+    return channel;
+  }
+
   static subscribeToUserReports(userId: string, callback: (payload: any) => void) {
     console.log('📡 Setting up real-time subscription for user reports:', userId);
 
@@ -465,39 +995,18 @@ export class SupabaseService {
     try {
       const { data, error } = await supabase
         .from('reports')
-        .select(`
-          *,
-          user:users(id, username, avatar_url)
-        `)
+        .select(REPORT_WITH_DETAILS_SELECT)
         .eq('status', 'active')
         .order('updated_at', { ascending: false })
         .range(offset, offset + limit - 1);
 
-      return { data, error };
+      return { data: data as Report[] | null, error };
     } catch (error) {
       console.error('Error fetching active reports:', error);
       return { data: null, error };
     }
   }
 
-  static async markReportsAsExpired(reportIds: string[]) {
-    try {
-      const { data, error } = await supabase
-        .from('reports')
-        .update({
-          status: 'expired',
-          updated_at: new Date().toISOString()
-        })
-        .in('id', reportIds)
-        .select();
-
-      return { data, error };
-    } catch (error) {
-      console.error('Error marking reports as expired:', error);
-      return { data: null, error };
-    }
-  }
-
   static async deleteExpiredReports(olderThanHours = 24) {
     try {
       const cutoffTime = new Date();
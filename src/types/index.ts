@@ -1,3 +1,5 @@
+import type { CATEGORY_REGISTRY } from '../utils/categories';
+
 export interface User {
   id: string;
   email: string;
@@ -5,57 +7,189 @@ export interface User {
   avatar_url?: string;
   notification_radius: number;
   notification_preferences: NotificationPreferences;
+  ignore_opposite_direction?: boolean; // skip alerts for reports facing away from the user's course
+  reputation_score?: number; // 0-100, derived from the user's track record (see src/utils/reputation.ts)
   created_at: string;
   updated_at: string;
 }
 
-export interface NotificationPreferences {
-  police_checkpoints: boolean;
-  accidents: boolean;
-  road_hazards: boolean;
-  traffic_jams: boolean;
-  weather_alerts: boolean;
-  general_alerts: boolean;
-}
+// One switch per category, keyed by its preferenceKey in src/utils/categories.ts
+export type NotificationPreferenceKey = (typeof CATEGORY_REGISTRY)[ReportCategory]['preferenceKey'];
+export type NotificationPreferences = Record<NotificationPreferenceKey, boolean>;
 
 export interface Report {
   id: string;
   user_id: string;
   category: ReportCategory;
   description: string;
+  details?: ReportDetails;
   latitude: number;
   longitude: number;
+  heading?: number | null; // direction of travel affected, degrees clockwise from north
+  road_side?: RoadSide | null;
+  geometry?: ReportGeometry | null; // stretch of road or area covered, as GeoJSON
   report_timestamp: string;
   status: ReportStatus;
+  confirm_count?: number;
+  deny_count?: number;
+  last_confirmed_at?: string | null;
+  merged_into?: string | null; // incident this report was merged into as a duplicate
+  reporter_count?: number; // people who reported the incident, including merged duplicates
+  incident_id?: string | null;
+  edited_at?: string | null; // last time the author changed the description or media
+  comment_count?: number;
+  requires_confirmation?: boolean; // author is low-trust; alerts wait for a confirmation
   created_at: string;
   updated_at: string;
   media_files?: MediaFile[];
-  user?: User;
+  user?: ReportAuthor | null;
+}
+
+// Structured, category-specific fields of a report (defined per category in src/utils/categories.ts)
+export type ReportDetails = Record<string, string | number>;
+
+// GeoJSON geometry of a report that covers more than a point; positions are [longitude, latitude]
+export type ReportGeometry =
+  | { type: 'LineString'; coordinates: [number, number][] }
+  | { type: 'Polygon'; coordinates: [number, number][][] };
+
+// Side of the road a report is on, relative to its heading
+export type RoadSide = 'right' | 'left' | 'both';
+
+// Report returned by a radius search, with its distance from the search point
+export interface ReportWithDistance extends Report {
+  distance: number; // meters
 }
 
-export type ReportCategory = 
-  | 'police_checkpoint'
-  | 'accident'
-  | 'road_hazard'
-  | 'traffic_jam'
-  | 'weather_alert'
-  | 'general';
+// Entry in an incident's history; user is null for events raised by the system
+export interface IncidentEvent {
+  id: string;
+  incident_id: string;
+  report_id?: string | null;
+  user_id?: string | null;
+  event_type: IncidentEventType;
+  description?: string | null; // the report's description for 'reported' and 'update'
+  created_at: string;
+  user?: ReportAuthor | null;
+}
 
-export type ReportStatus = 'active' | 'resolved' | 'expired';
+export type IncidentEventType = 'reported' | 'update' | 'confirmed' | 'denied' | 'resolved' | 'expired';
+
+// Change an author made to their report after posting it
+export interface ReportEdit {
+  id: string;
+  report_id: string;
+  user_id: string;
+  edit_type: ReportEditType;
+  old_value?: string | null; // previous description, or the file type of a removed attachment
+  new_value?: string | null; // new description, or the file type of an added attachment
+  created_at: string;
+  user?: ReportAuthor | null;
+}
+
+export type ReportEditType = 'description' | 'media_added' | 'media_removed' | 'resolved';
+
+// Follow-up note left on a report by any driver
+export interface ReportComment {
+  id: string;
+  report_id: string;
+  user_id: string;
+  body: string;
+  created_at: string;
+  updated_at: string;
+  user?: ReportAuthor | null;
+}
+
+// Public author fields embedded with each report
+export type ReportAuthor = Pick<User, 'id' | 'username' | 'avatar_url' | 'reputation_score'>;
+
+// Figures a user's reputation score is derived from
+export interface UserReputation {
+  reputation_score: number;
+  confirmations: number; // votes confirming the user's reports
+  denials: number;
+  upheld_reports: number; // finished reports with no more denials than confirmations
+  disputed_reports: number;
+  moderator_adjustment: number; // points added or taken away by moderators
+}
+
+// Categories are defined by CATEGORY_REGISTRY in src/utils/categories.ts
+export type ReportCategory = keyof typeof CATEGORY_REGISTRY;
+
+export type ReportStatus = 'active' | 'resolved' | 'expired' | 'merged';
+
+export interface CategoryConfig {
+  category: ReportCategory;
+  expiry_minutes: number;
+  color: string;
+  icon: string;
+  notification_sound: string;
+  enabled: boolean;
+  updated_at?: string;
+}
+
+export type VoteType = 'confirm' | 'deny';
+
+export interface ReportVote {
+  id: string;
+  report_id: string;
+  user_id: string;
+  vote_type: VoteType;
+  created_at: string;
+  updated_at: string;
+}
 
 export interface MediaFile {
   id: string;
   report_id: string;
-  file_type: 'photo' | 'audio';
+  file_type: 'photo' | 'audio' | 'video';
   file_url: string;
   file_name: string;
+  variant: MediaVariant;
+  source_media_id?: string | null; // the original a thumbnail was made from
   created_at: string;
 }
 
+export type MediaVariant = 'original' | 'thumbnail';
+
+// Report waiting in the offline queue until it reaches the server
+export interface PendingReport {
+  id: string; // generated on the device and reused as the report id
+  user_id: string;
+  category: ReportCategory;
+  description: string;
+  details?: ReportDetails;
+  latitude: number;
+  longitude: number;
+  heading?: number | null;
+  road_side?: RoadSide | null;
+  geometry?: ReportGeometry | null;
+  merged_into?: string | null; // report whose incident this is an update to
+  report_timestamp: string; // when the report was captured
+  media: MediaAttachment[];
+  state: PendingReportState;
+  attempts: number;
+  next_attempt_at: number;
+  last_error?: string;
+}
+
+// Local file to upload with a report
+export interface MediaAttachment {
+  file_type: MediaFile['file_type'];
+  uri: string;
+  file_name: string;
+  mime_type: string;
+  thumbnail_uri?: string; // photos only, generated before upload
+}
+
+export type PendingReportState = 'pending' | 'failed';
+
 export interface Location {
   latitude: number;
   longitude: number;
   accuracy?: number;
+  heading?: number | null; // device course in degrees, when known
+  speed?: number | null; // meters per second
 }
 
 export interface MapRegion {
@@ -71,4 +205,13 @@ export interface NotificationData {
   body: string;
   data?: any;
   sound?: string;
-} 
\ No newline at end of file
+} 
+// Screens of the main stack and the params each one takes
+export type RootStackParamList = {
+  MainTabs: undefined;
+  NewReport: {
+    location?: { latitude: number; longitude: number }; // e.g. a point long-pressed on the map
+    updateOf?: Report; // post the report as an update to this report's incident
+  } | undefined;
+  ReportDetail: { report: Report };
+};
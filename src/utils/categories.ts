@@ -0,0 +1,292 @@
+import {
+  CategoryConfig,
+  NotificationPreferenceKey,
+  NotificationPreferences,
+  ReportCategory,
+  ReportGeometry,
+} from '../types';
+
+/**
+ * Single source of truth for report categories.
+ *
+ * ReportCategory and NotificationPreferences in src/types are derived from
+ * CATEGORY_REGISTRY, so adding a category in the app only means adding an
+ * entry here. The database keeps its own copy: update the category CHECK
+ * constraints and category_preference_key() in the SQL scripts as well.
+ * Colors, icons, expiry and sounds below are defaults; category_config
+ * rows loaded by CategoryConfigService override them at runtime.
+ */
+interface CategoryDefinitionShape<C extends string> {
+  category: C;
+  label: string;
+  shortLabel: string;
+  preferenceKey: string;
+  preferenceLabel: string;
+  preferenceDescription: string;
+  preferenceIcon: string; // MaterialCommunityIcons name
+  defaults: Omit<CategoryConfig, 'category'> & { category: C };
+  fields: ReportFieldDefinition[]; // stored in reports.details
+  geometryType?: ReportGeometry['type']; // shape that can be drawn instead of just a point
+}
+
+export interface CategoryDefinition extends CategoryDefinitionShape<ReportCategory> {
+  preferenceKey: NotificationPreferenceKey;
+}
+
+// Keeps each entry's literal keys, which the category types are derived from,
+// and checks that every entry names the category it is registered under
+const defineCategories = <const T extends { [C in keyof T]: CategoryDefinitionShape<C & string> }>(
+  registry: T
+) => registry;
+
+/**
+ * A structured field collected for a category. Keep these in sync with
+ * valid_report_details() in setup_report_details.sql, which validates them on the server.
+ */
+export type ReportFieldDefinition =
+  | {
+      key: string;
+      label: string;
+      type: 'select';
+      options: { value: string; label: string }[];
+    }
+  | {
+      key: string;
+      label: string;
+      type: 'number';
+      min: number;
+      max: number;
+    };
+
+export const CATEGORY_REGISTRY = defineCategories({
+  police_checkpoint: {
+    category: 'police_checkpoint',
+    label: 'Police Checkpoint',
+    shortLabel: 'Police',
+    preferenceKey: 'police_checkpoints',
+    preferenceLabel: 'Police Checkpoints',
+    preferenceDescription: 'Receive alerts about police checkpoints',
+    preferenceIcon: 'shield',
+    defaults: {
+      category: 'police_checkpoint',
+      expiry_minutes: 5,
+      color: '#1E40AF',
+      icon: '🚔',
+      notification_sound: 'siren.mp3',
+      enabled: true,
+    },
+    fields: [
+      {
+        key: 'checkpoint_type',
+        label: 'Checkpoint type',
+        type: 'select',
+        options: [
+          { value: 'sobriety', label: 'Sobriety' },
+          { value: 'speed', label: 'Speed' },
+          { value: 'documents', label: 'Documents' },
+          { value: 'other', label: 'Other' },
+        ],
+      },
+      {
+        key: 'direction',
+        label: 'Direction',
+        type: 'select',
+        options: [
+          { value: 'northbound', label: 'Northbound' },
+          { value: 'southbound', label: 'Southbound' },
+          { value: 'eastbound', label: 'Eastbound' },
+          { value: 'westbound', label: 'Westbound' },
+          { value: 'both', label: 'Both directions' },
+        ],
+      },
+    ],
+  },
+  accident: {
+    category: 'accident',
+    label: 'Accident',
+    shortLabel: 'Accident',
+    preferenceKey: 'accidents',
+    preferenceLabel: 'Accidents',
+    preferenceDescription: 'Receive alerts about accidents',
+    preferenceIcon: 'car-emergency',
+    defaults: {
+      category: 'accident',
+      expiry_minutes: 2,
+      color: '#DC2626',
+      icon: '🚨',
+      notification_sound: 'crash.mp3',
+      enabled: true,
+    },
+    fields: [
+      { key: 'lanes_blocked', label: 'Lanes blocked', type: 'number', min: 0, max: 8 },
+      {
+        key: 'injuries',
+        label: 'Injuries',
+        type: 'select',
+        options: [
+          { value: 'none', label: 'None' },
+          { value: 'minor', label: 'Minor' },
+          { value: 'serious', label: 'Serious' },
+          { value: 'unknown', label: 'Unknown' },
+        ],
+      },
+      { key: 'vehicles_involved', label: 'Vehicles involved', type: 'number', min: 1, max: 20 },
+    ],
+  },
+  road_hazard: {
+    category: 'road_hazard',
+    label: 'Road Hazard',
+    shortLabel: 'Hazard',
+    preferenceKey: 'road_hazards',
+    preferenceLabel: 'Road Hazards',
+    preferenceDescription: 'Receive alerts about road hazards',
+    preferenceIcon: 'alert',
+    defaults: {
+      category: 'road_hazard',
+      expiry_minutes: 15,
+      color: '#D97706',
+      icon: '⚠️',
+      notification_sound: 'warning.mp3',
+      enabled: true,
+    },
+    fields: [],
+  },
+  traffic_jam: {
+    category: 'traffic_jam',
+    label: 'Traffic Jam',
+    shortLabel: 'Traffic',
+    preferenceKey: 'traffic_jams',
+    preferenceLabel: 'Traffic Jams',
+    preferenceDescription: 'Receive alerts about traffic jams',
+    preferenceIcon: 'car',
+    defaults: {
+      category: 'traffic_jam',
+      expiry_minutes: 15,
+      color: '#7C2D12',
+      icon: '🚦',
+      notification_sound: 'traffic.mp3',
+      enabled: true,
+    },
+    geometryType: 'LineString',
+    fields: [
+      {
+        key: 'severity',
+        label: 'Severity',
+        type: 'select',
+        options: [
+          { value: 'light', label: 'Light' },
+          { value: 'moderate', label: 'Moderate' },
+          { value: 'heavy', label: 'Heavy' },
+          { value: 'standstill', label: 'Standstill' },
+        ],
+      },
+    ],
+  },
+  weather_alert: {
+    category: 'weather_alert',
+    label: 'Weather Alert',
+    shortLabel: 'Weather',
+    preferenceKey: 'weather_alerts',
+    preferenceLabel: 'Weather Alerts',
+    preferenceDescription: 'Receive alerts about weather conditions',
+    preferenceIcon: 'weather-rainy',
+    defaults: {
+      category: 'weather_alert',
+      expiry_minutes: 2,
+      color: '#0F766E',
+      icon: '🌧️',
+      notification_sound: 'weather.mp3',
+      enabled: true,
+    },
+    geometryType: 'Polygon',
+    fields: [
+      {
+        key: 'kind',
+        label: 'Kind',
+        type: 'select',
+        options: [
+          { value: 'flooding', label: 'Flooding' },
+          { value: 'fog', label: 'Fog' },
+          { value: 'ice', label: 'Ice' },
+          { value: 'snow', label: 'Snow' },
+          { value: 'high_wind', label: 'High wind' },
+          { value: 'hail', label: 'Hail' },
+          { value: 'other', label: 'Other' },
+        ],
+      },
+    ],
+  },
+  general: {
+    category: 'general',
+    label: 'General',
+    shortLabel: 'General',
+    preferenceKey: 'general_alerts',
+    preferenceLabel: 'General Alerts',
+    preferenceDescription: 'Receive general community alerts',
+    preferenceIcon: 'information',
+    defaults: {
+      category: 'general',
+      expiry_minutes: 10,
+      color: '#374151',
+      icon: '📍',
+      notification_sound: 'default.mp3',
+      enabled: true,
+    },
+    fields: [],
+  },
+});
+
+// Display order used by pickers, filters and settings
+export const REPORT_CATEGORIES = Object.keys(CATEGORY_REGISTRY) as ReportCategory[];
+
+// Runtime overrides from the category_config table
+let configOverrides: Partial<Record<ReportCategory, Partial<CategoryConfig>>> = {};
+
+export const setCategoryConfigOverrides = (rows: CategoryConfig[]): void => {
+  const overrides: Partial<Record<ReportCategory, Partial<CategoryConfig>>> = {};
+  for (const row of rows) {
+    if (CATEGORY_REGISTRY[row.category]) {
+      overrides[row.category] = row;
+    }
+  }
+  configOverrides = overrides;
+};
+
+export const getCategoryDefinition = (category: ReportCategory): CategoryDefinition => {
+  return CATEGORY_REGISTRY[category] || CATEGORY_REGISTRY.general;
+};
+
+export const getCategoryConfig = (category: ReportCategory): CategoryConfig => {
+  const definition = getCategoryDefinition(category);
+  return { ...definition.defaults, ...configOverrides[definition.category] };
+};
+
+export const getCategoryLabel = (category: ReportCategory): string => {
+  return getCategoryDefinition(category).label;
+};
+
+export const getCategoryColor = (category: ReportCategory): string => {
+  return getCategoryConfig(category).color;
+};
+
+export const getCategoryIcon = (category: ReportCategory): string => {
+  return getCategoryConfig(category).icon;
+};
+
+export const getEnabledCategories = (): ReportCategory[] => {
+  return REPORT_CATEGORIES.filter(category => getCategoryConfig(category).enabled);
+};
+
+export const isCategoryEnabledInPreferences = (
+  category: ReportCategory,
+  preferences: NotificationPreferences
+): boolean => {
+  return preferences[getCategoryDefinition(category).preferenceKey] !== false;
+};
+
+export const getDefaultNotificationPreferences = (): NotificationPreferences => {
+  return REPORT_CATEGORIES.reduce((preferences, category) => {
+    preferences[CATEGORY_REGISTRY[category].preferenceKey] = true;
+    return preferences;
+  }, {} as NotificationPreferences);
+};
@@ -0,0 +1,104 @@
+import { MapRegion, Report, ReportCategory } from '../types';
+
+export interface ReportCluster {
+  id: string;
+  latitude: number;
+  longitude: number;
+  reports: Report[];
+  categoryCounts: { category: ReportCategory; count: number }[]; // most common first
+  bounds: { minLat: number; maxLat: number; minLng: number; maxLng: number };
+}
+
+export type MapItem =
+  | { type: 'report'; report: Report }
+  | { type: 'cluster'; cluster: ReportCluster };
+
+// Roughly how many grid cells fit across the visible map
+const GRID_COLUMNS = 8;
+
+// Below this longitude span every report gets its own marker
+const MIN_CLUSTER_SPAN = 0.002; // degrees
+
+/**
+ * Group reports that would overlap on screen into clusters.
+ *
+ * Reports are bucketed into a grid whose cell size follows the zoom level.
+ * Cells are anchored to fixed lat/lng lines so clusters stay put while panning.
+ */
+export const clusterReports = (reports: Report[], region: MapRegion): MapItem[] => {
+  if (region.longitudeDelta < MIN_CLUSTER_SPAN) {
+    return reports.map(report => ({ type: 'report', report }));
+  }
+
+  const cellSize = Math.pow(2, Math.floor(Math.log2(region.longitudeDelta / GRID_COLUMNS)));
+  const cells = new Map<string, Report[]>();
+
+  reports.forEach(report => {
+    const key = `${Math.floor(report.latitude / cellSize)}:${Math.floor(report.longitude / cellSize)}`;
+    const cell = cells.get(key);
+    if (cell) {
+      cell.push(report);
+    } else {
+      cells.set(key, [report]);
+    }
+  });
+
+  const items: MapItem[] = [];
+  cells.forEach((cellReports, key) => {
+    if (cellReports.length === 1) {
+      items.push({ type: 'report', report: cellReports[0] });
+    } else {
+      items.push({ type: 'cluster', cluster: buildCluster(`${cellSize}:${key}`, cellReports) });
+    }
+  });
+
+  return items;
+};
+
+const buildCluster = (id: string, reports: Report[]): ReportCluster => {
+  const counts = new Map<ReportCategory, number>();
+  let latitudeSum = 0;
+  let longitudeSum = 0;
+  const bounds = {
+    minLat: Infinity,
+    maxLat: -Infinity,
+    minLng: Infinity,
+    maxLng: -Infinity,
+  };
+
+  reports.forEach(report => {
+    counts.set(report.category, (counts.get(report.category) || 0) + 1);
+    latitudeSum += report.latitude;
+    longitudeSum += report.longitude;
+    bounds.minLat = Math.min(bounds.minLat, report.latitude);
+    bounds.maxLat = Math.max(bounds.maxLat, report.latitude);
+    bounds.minLng = Math.min(bounds.minLng, report.longitude);
+    bounds.maxLng = Math.max(bounds.maxLng, report.longitude);
+  });
+
+  return {
+    id,
+    latitude: latitudeSum / reports.length,
+    longitude: longitudeSum / reports.length,
+    reports,
+    categoryCounts: Array.from(counts.entries())
+      .map(([category, count]) => ({ category, count }))
+      .sort((a, b) => b.count - a.count),
+    bounds,
+  };
+};
+
+/**
+ * Region that zooms in far enough to split a cluster apart
+ */
+export const getClusterZoomRegion = (cluster: ReportCluster, current: MapRegion): MapRegion => {
+  const { minLat, maxLat, minLng, maxLng } = cluster.bounds;
+
+  return {
+    latitude: (minLat + maxLat) / 2,
+    longitude: (minLng + maxLng) / 2,
+    // Fit the cluster with some padding, but always zoom in at least 2x
+    latitudeDelta: Math.min(Math.max((maxLat - minLat) * 1.5, MIN_CLUSTER_SPAN / 2), current.latitudeDelta / 2),
+    longitudeDelta: Math.min(Math.max((maxLng - minLng) * 1.5, MIN_CLUSTER_SPAN / 2), current.longitudeDelta / 2),
+  };
+};
@@ -0,0 +1,28 @@
+import { RoadSide } from '../types';
+
+// Headings offered when setting the direction by hand, clockwise from north
+export const COMPASS_HEADINGS = [
+  { heading: 0, label: 'N', name: 'Northbound' },
+  { heading: 45, label: 'NE', name: 'Northeast' },
+  { heading: 90, label: 'E', name: 'Eastbound' },
+  { heading: 135, label: 'SE', name: 'Southeast' },
+  { heading: 180, label: 'S', name: 'Southbound' },
+  { heading: 225, label: 'SW', name: 'Southwest' },
+  { heading: 270, label: 'W', name: 'Westbound' },
+  { heading: 315, label: 'NW', name: 'Northwest' },
+];
+
+export const ROAD_SIDES: { value: RoadSide; label: string }[] = [
+  { value: 'right', label: 'Right side' },
+  { value: 'left', label: 'Left side' },
+  { value: 'both', label: 'Both sides' },
+];
+
+// Nearest compass point for a heading in degrees
+export const getCompassHeading = (heading: number) =>
+  COMPASS_HEADINGS[Math.round((((heading % 360) + 360) % 360) / 45) % COMPASS_HEADINGS.length];
+
+export const formatHeading = (heading: number): string => getCompassHeading(heading).name;
+
+export const getRoadSideLabel = (roadSide: RoadSide): string =>
+  ROAD_SIDES.find(side => side.value === roadSide)?.label ?? roadSide;
@@ -0,0 +1,136 @@
+import { MapRegion, Report, ReportGeometry } from '../types';
+import { LocationService } from '../services/locationService';
+
+type Coordinate = { latitude: number; longitude: number };
+
+export interface GeometryBounds {
+  minLat: number;
+  maxLat: number;
+  minLng: number;
+  maxLng: number;
+}
+
+// Most vertices a drawn shape may have (enforced on the server by setup_report_geometry.sql)
+export const MAX_GEOMETRY_POINTS = 100;
+
+// Fewest vertices a shape needs to be valid
+export const MIN_GEOMETRY_POINTS: Record<ReportGeometry['type'], number> = {
+  LineString: 2,
+  Polygon: 3,
+};
+
+/**
+ * Vertices of a geometry; a polygon's closing point is left out
+ */
+export const getGeometryPoints = (geometry: ReportGeometry): Coordinate[] => {
+  const positions = geometry.type === 'LineString'
+    ? geometry.coordinates
+    : geometry.coordinates[0].slice(0, -1);
+  return positions.map(([longitude, latitude]) => ({ latitude, longitude }));
+};
+
+/**
+ * Build a GeoJSON geometry from drawn vertices, closing the polygon ring
+ */
+export const createGeometry = (type: ReportGeometry['type'], points: Coordinate[]): ReportGeometry => {
+  const positions = points.map(({ latitude, longitude }) => [longitude, latitude] as [number, number]);
+  return type === 'LineString'
+    ? { type, coordinates: positions }
+    : { type, coordinates: [[...positions, positions[0]]] };
+};
+
+/**
+ * Point used for the report's marker: the middle vertex of a line, the average of a polygon's vertices
+ */
+export const getGeometryCenter = (geometry: ReportGeometry): Coordinate => {
+  const points = getGeometryPoints(geometry);
+  if (geometry.type === 'LineString') {
+    return points[Math.floor(points.length / 2)];
+  }
+  return {
+    latitude: points.reduce((sum, point) => sum + point.latitude, 0) / points.length,
+    longitude: points.reduce((sum, point) => sum + point.longitude, 0) / points.length,
+  };
+};
+
+export const getReportBounds = (report: Pick<Report, 'latitude' | 'longitude' | 'geometry'>): GeometryBounds => {
+  const points = report.geometry ? getGeometryPoints(report.geometry) : [report];
+  return {
+    minLat: Math.min(...points.map(point => point.latitude)),
+    maxLat: Math.max(...points.map(point => point.latitude)),
+    minLng: Math.min(...points.map(point => point.longitude)),
+    maxLng: Math.max(...points.map(point => point.longitude)),
+  };
+};
+
+/**
+ * Whether a report's point or shape overlaps a region, wrapping across the antimeridian
+ */
+export const reportIntersectsRegion = (
+  report: Pick<Report, 'latitude' | 'longitude' | 'geometry'>,
+  region: MapRegion
+): boolean => {
+  const bounds = getReportBounds(report);
+  if (
+    bounds.maxLat < region.latitude - region.latitudeDelta / 2 ||
+    bounds.minLat > region.latitude + region.latitudeDelta / 2
+  ) {
+    return false;
+  }
+  if (region.longitudeDelta >= 360) {
+    return true;
+  }
+
+  const centerLng = (bounds.minLng + bounds.maxLng) / 2;
+  const lngDistance = Math.abs(((centerLng - region.longitude + 540) % 360) - 180);
+  return lngDistance <= (region.longitudeDelta + bounds.maxLng - bounds.minLng) / 2;
+};
+
+// Project around an origin in meters; accurate enough at alert-radius distances
+const METERS_PER_DEGREE_LATITUDE = 110540;
+const METERS_PER_DEGREE_LONGITUDE = 111320;
+
+const project = (point: Coordinate, origin: Coordinate) => ({
+  x: (point.longitude - origin.longitude) * METERS_PER_DEGREE_LONGITUDE * Math.cos((origin.latitude * Math.PI) / 180),
+  y: (point.latitude - origin.latitude) * METERS_PER_DEGREE_LATITUDE,
+});
+
+const distanceToSegment = (a: { x: number; y: number }, b: { x: number; y: number }): number => {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSquared = dx * dx + dy * dy;
+  const t = lengthSquared === 0 ? 0 : Math.max(0, Math.min(1, -(a.x * dx + a.y * dy) / lengthSquared));
+  return Math.hypot(a.x + t * dx, a.y + t * dy);
+};
+
+/**
+ * Distance in meters from a point to a report: to its nearest edge for shapes,
+ * zero when inside a polygon
+ */
+export const getDistanceToReport = (
+  point: Coordinate,
+  report: Pick<Report, 'latitude' | 'longitude' | 'geometry'>
+): number => {
+  if (!report.geometry) {
+    return LocationService.calculateDistance(point.latitude, point.longitude, report.latitude, report.longitude);
+  }
+
+  const vertices = getGeometryPoints(report.geometry).map(vertex => project(vertex, point));
+  const isPolygon = report.geometry.type === 'Polygon';
+  const segmentCount = isPolygon ? vertices.length : vertices.length - 1;
+
+  let inside = false;
+  let distance = Infinity;
+  for (let i = 0; i < segmentCount; i++) {
+    const a = vertices[i];
+    const b = vertices[(i + 1) % vertices.length];
+    distance = Math.min(distance, distanceToSegment(a, b));
+
+    // Ray cast from the origin along +x
+    if (isPolygon && (a.y > 0) !== (b.y > 0) && a.x + ((0 - a.y) * (b.x - a.x)) / (b.y - a.y) > 0) {
+      inside = !inside;
+    }
+  }
+
+  return inside ? 0 : distance;
+};
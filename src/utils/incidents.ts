@@ -0,0 +1,34 @@
+import { IncidentEvent, IncidentEventType } from '../types';
+
+const EVENT_ICONS: Record<IncidentEventType, string> = {
+  reported: '📍',
+  update: '💬',
+  confirmed: '👍',
+  denied: '👎',
+  resolved: '✅',
+  expired: '⌛',
+};
+
+const EVENT_LABELS: Record<IncidentEventType, string> = {
+  reported: 'Reported',
+  update: 'Update',
+  confirmed: 'Still there',
+  denied: 'Not there anymore',
+  resolved: 'Resolved',
+  expired: 'Expired',
+};
+
+export const getIncidentEventIcon = (eventType: IncidentEventType): string => EVENT_ICONS[eventType];
+
+export const getIncidentEventLabel = (eventType: IncidentEventType): string => EVENT_LABELS[eventType];
+
+// Events that move the story on, shown as branches under the report in the timeline
+export const getIncidentUpdates = (events: IncidentEvent[] = []): IncidentEvent[] =>
+  events.filter(event => ['update', 'resolved', 'expired'].includes(event.event_type));
+
+// Group events by incident, keeping each incident's events in order
+export const groupIncidentEvents = (events: IncidentEvent[]): Record<string, IncidentEvent[]> =>
+  events.reduce<Record<string, IncidentEvent[]>>((groups, event) => {
+    (groups[event.incident_id] ??= []).push(event);
+    return groups;
+  }, {});
@@ -0,0 +1,27 @@
+import { MediaFile } from '../types';
+
+// Attachments allowed per report (enforced on the server by setup_media_gallery.sql)
+export const MEDIA_LIMITS: Record<MediaFile['file_type'], number> = {
+  photo: 6,
+  video: 2,
+  audio: 1,
+};
+
+// Longest video clip that can be recorded or attached
+export const MAX_VIDEO_DURATION = 30; // seconds
+
+// Attachments as uploaded, without their generated thumbnails
+export const getOriginalMedia = (mediaFiles: MediaFile[] = []): MediaFile[] =>
+  mediaFiles.filter(media => media.variant !== 'thumbnail');
+
+// Photos and videos, in the order they were attached
+export const getVisualMedia = (mediaFiles: MediaFile[] = []): MediaFile[] =>
+  getOriginalMedia(mediaFiles).filter(media => media.file_type === 'photo' || media.file_type === 'video');
+
+export const countMediaByType = (mediaFiles: MediaFile[] = [], fileType: MediaFile['file_type']): number =>
+  getOriginalMedia(mediaFiles).filter(media => media.file_type === fileType).length;
+
+// Small version of a photo for list views, falling back to the full image for older uploads
+export const getThumbnailUrl = (media: MediaFile, mediaFiles: MediaFile[] = []): string =>
+  mediaFiles.find(m => m.variant === 'thumbnail' && m.source_media_id === media.id)?.file_url ??
+  media.file_url;
@@ -0,0 +1,42 @@
+import { Report, ReportCategory, ReportDetails } from '../types';
+import { ReportFieldDefinition, getCategoryDefinition } from './categories';
+
+export const getReportFields = (category: ReportCategory): ReportFieldDefinition[] =>
+  getCategoryDefinition(category).fields;
+
+const isValidFieldValue = (field: ReportFieldDefinition, value: unknown): boolean => {
+  if (field.type === 'select') {
+    return field.options.some(option => option.value === value);
+  }
+  return typeof value === 'number' && Number.isInteger(value) && value >= field.min && value <= field.max;
+};
+
+// Drop fields the category doesn't define and values the server would reject
+export const sanitizeReportDetails = (category: ReportCategory, details: ReportDetails = {}): ReportDetails => {
+  const sanitized: ReportDetails = {};
+  for (const field of getReportFields(category)) {
+    if (isValidFieldValue(field, details[field.key])) {
+      sanitized[field.key] = details[field.key];
+    }
+  }
+  return sanitized;
+};
+
+// Labelled values for display, in the order the category defines its fields
+export const getReportDetailEntries = (report: Pick<Report, 'category' | 'details'>) =>
+  getReportFields(report.category)
+    .filter(field => report.details?.[field.key] !== undefined)
+    .map(field => {
+      const value = report.details![field.key];
+      return {
+        key: field.key,
+        label: field.label,
+        value: field.type === 'select'
+          ? field.options.find(option => option.value === value)?.label ?? String(value)
+          : String(value),
+      };
+    });
+
+// Every filter must match the report's value for that field
+export const matchesDetailFilters = (report: Pick<Report, 'details'>, filters: ReportDetails): boolean =>
+  Object.entries(filters).every(([key, value]) => report.details?.[key] === value);
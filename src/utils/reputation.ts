@@ -0,0 +1,35 @@
+import { Report, ReportAuthor } from '../types';
+
+// Match trusted_reputation_threshold() and low_trust_reputation_threshold() in setup_reputation.sql
+export const TRUSTED_REPUTATION = 75;
+export const LOW_TRUST_REPUTATION = 30;
+
+// How far ahead of its age a trusted reporter's report is ranked in the timeline
+const TRUSTED_RANK_BOOST = 15 * 60 * 1000; // 15 minutes
+
+export type ReputationLevel = 'trusted' | 'standard' | 'low';
+
+export const getReputationLevel = (score?: number | null): ReputationLevel => {
+  if (score == null) return 'standard';
+  if (score >= TRUSTED_REPUTATION) return 'trusted';
+  if (score < LOW_TRUST_REPUTATION) return 'low';
+  return 'standard';
+};
+
+export const isTrustedReporter = (author?: ReportAuthor | null): boolean =>
+  getReputationLevel(author?.reputation_score) === 'trusted';
+
+export const getReputationLabel = (score?: number | null): string => {
+  switch (getReputationLevel(score)) {
+    case 'trusted':
+      return 'Trusted reporter';
+    case 'low':
+      return 'New or disputed reporter';
+    default:
+      return 'Reporter';
+  }
+};
+
+// Timeline sort key: most recent first, with trusted reporters' reports moved up
+export const getTimelineRank = (report: Report): number =>
+  new Date(report.updated_at).getTime() + (isTrustedReporter(report.user) ? TRUSTED_RANK_BOOST : 0);